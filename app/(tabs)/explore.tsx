@@ -1,97 +1,354 @@
-import { Image } from 'expo-image';
-import { Platform, StyleSheet } from 'react-native';
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
 import { Collapsible } from '@/components/Collapsible';
-import { ExternalLink } from '@/components/ExternalLink';
+import { ConditionIcon } from '@/components/ConditionIcon';
 import ParallaxScrollView from '@/components/ParallaxScrollView';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { IconSymbol } from '@/components/ui/IconSymbol';
+import { usePlaceSuggestions } from '@/hooks/usePlaceSuggestions';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useStore } from '@/hooks/useStore';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useWeatherReports } from '@/hooks/useWeatherReports';
+import { TranslationKey, translateConditionGroup } from '@/i18n';
+import {
+  addComparedLocation,
+  comparisonStore,
+  MAX_COMPARED,
+  MIN_COMPARED,
+  removeComparedLocation,
+} from '@/services/comparison';
+import { favoritesStore, toLocationQuery } from '@/services/favorites';
+import { WeatherReport } from '@/services/weather';
+import { weatherCacheKey } from '@/services/weatherCache';
+import { compareToBaseline, DeltaDirection, formatSignedNumber } from '@/utils/comparison';
+import { aggregateDailyForecast, DailyForecast, upcomingRain } from '@/utils/forecast';
+import { formatWeekday } from '@/utils/time';
+import {
+  convertPrecipitation,
+  convertTemperature,
+  convertWindSpeed,
+  formatPercent,
+  formatPrecipitation,
+  formatTemperature,
+  formatWindSpeed,
+  UNIT_LABELS,
+  UnitPreferences,
+} from '@/utils/units';
+
+const FORECAST_DAYS = 5;
+
+type Highlight = { label: TranslationKey; color: string };
+
+/** One compared quantity, read from a per-location snapshot of type `S`. */
+type Metric<S> = {
+  label: TranslationKey;
+  value: (snapshot: S) => number;
+  format: (value: number, units: UnitPreferences, locale: string) => string;
+  /** The value in the user's display unit, which deltas are computed in. */
+  display: (value: number, units: UnitPreferences) => number;
+  deltaUnit: (units: UnitPreferences) => string;
+  decimals: number;
+  /** Smallest display-unit difference worth highlighting. */
+  tolerance: number;
+  up: Highlight;
+  down: Highlight;
+};
+
+const WARMER: Highlight = { label: 'compare.warmer', color: '#E8590C' };
+const COLDER: Highlight = { label: 'compare.colder', color: '#1C7ED6' };
+const WETTER: Highlight = { label: 'compare.wetter', color: '#1C7ED6' };
+const DRIER: Highlight = { label: 'compare.drier', color: '#E8590C' };
+const WINDIER: Highlight = { label: 'compare.windier', color: '#7048E8' };
+const CALMER: Highlight = { label: 'compare.calmer', color: '#2F9E44' };
+
+const temperatureMetric = <S,>(label: TranslationKey, value: (snapshot: S) => number): Metric<S> => ({
+  label,
+  value,
+  format: (celsius, units, locale) => formatTemperature(celsius, units.temperature, { locale }),
+  display: (celsius, units) => convertTemperature(celsius, units.temperature),
+  deltaUnit: () => '°',
+  decimals: 0,
+  tolerance: 1,
+  up: WARMER,
+  down: COLDER,
+});
+
+const rainChanceMetric = <S,>(label: TranslationKey, value: (snapshot: S) => number): Metric<S> => ({
+  label,
+  value,
+  format: (fraction, _units, locale) => formatPercent(fraction, locale),
+  display: (fraction) => fraction * 100,
+  deltaUnit: () => '%',
+  decimals: 0,
+  tolerance: 10,
+  up: WETTER,
+  down: DRIER,
+});
+
+const rainAmountMetric = <S,>(label: TranslationKey, value: (snapshot: S) => number): Metric<S> => ({
+  label,
+  value,
+  format: (millimetres, units, locale) => formatPrecipitation(millimetres, units.distance, locale),
+  display: (millimetres, units) => convertPrecipitation(millimetres, units.distance),
+  deltaUnit: (units) => (units.distance === 'mi' ? ' in' : ' mm'),
+  decimals: 1,
+  tolerance: 0.5,
+  up: WETTER,
+  down: DRIER,
+});
+
+type CurrentSnapshot = {
+  temperature: number;
+  feelsLike: number;
+  windSpeed: number;
+  rainChance: number;
+  rainAmount: number;
+};
+
+const CURRENT_METRICS: Metric<CurrentSnapshot>[] = [
+  temperatureMetric('units.temperature', (snapshot) => snapshot.temperature),
+  temperatureMetric('cards.feelsLike', (snapshot) => snapshot.feelsLike),
+  {
+    label: 'cards.windSpeed',
+    value: (snapshot) => snapshot.windSpeed,
+    format: (metresPerSecond, units, locale) => formatWindSpeed(metresPerSecond, units.windSpeed, locale),
+    display: (metresPerSecond, units) => convertWindSpeed(metresPerSecond, units.windSpeed),
+    deltaUnit: (units) => ` ${UNIT_LABELS.windSpeed[units.windSpeed]}`,
+    decimals: 1,
+    tolerance: 1,
+    up: WINDIER,
+    down: CALMER,
+  },
+  rainChanceMetric('compare.rainChance', (snapshot) => snapshot.rainChance),
+  rainAmountMetric('compare.rainAmount', (snapshot) => snapshot.rainAmount),
+];
+
+const DAILY_METRICS: Metric<DailyForecast>[] = [
+  temperatureMetric('compare.high', (day) => day.tempMax),
+  temperatureMetric('compare.low', (day) => day.tempMin),
+  rainChanceMetric('compare.dayRainChance', (day) => day.precipitationProbability),
+  rainAmountMetric('compare.dayRainAmount', (day) => day.precipitation),
+];
+
+const toCurrentSnapshot = ({ current, forecast }: WeatherReport, now: number): CurrentSnapshot => {
+  const rain = upcomingRain(forecast, now);
+  return {
+    temperature: current.temperature,
+    feelsLike: current.feelsLike,
+    windSpeed: current.windSpeed,
+    rainChance: rain.probability,
+    rainAmount: rain.amount,
+  };
+};
+
+type Column<S> = { id: string; snapshot: S | null };
+
+/**
+ * One metric across all compared places. The first column is the baseline;
+ * the others show their difference from it.
+ */
+function MetricRow<S>({ metric, columns }: { metric: Metric<S>; columns: Column<S>[] }) {
+  const { t, locale } = useTranslation();
+  const { units } = usePreferences();
+  const baseline = columns[0]?.snapshot;
+
+  const describeDelta = (snapshot: S) => {
+    if (!baseline) return null;
+    const { difference, direction } = compareToBaseline(
+      metric.display(metric.value(snapshot), units),
+      metric.display(metric.value(baseline), units),
+      metric.tolerance
+    );
+    const highlight: Record<DeltaDirection, Highlight | null> = { up: metric.up, down: metric.down, even: null };
+    return {
+      text: `${formatSignedNumber(difference, metric.decimals, locale)}${metric.deltaUnit(units)}`,
+      highlight: highlight[direction],
+    };
+  };
+
+  return (
+    <View style={styles.metric}>
+      <ThemedText style={styles.metricLabel}>{t(metric.label)}</ThemedText>
+      <View style={styles.row}>
+        {columns.map(({ id, snapshot }, index) => {
+          const delta = snapshot && index > 0 ? describeDelta(snapshot) : null;
+          return (
+            <View key={id} style={styles.cell}>
+              <ThemedText type="defaultSemiBold">
+                {snapshot ? metric.format(metric.value(snapshot), units, locale) : '—'}
+              </ThemedText>
+              {index === 0 ? (
+                <ThemedText style={styles.delta}>{t('compare.baseline')}</ThemedText>
+              ) : delta ? (
+                <Text style={[styles.delta, styles.deltaText, delta.highlight && { color: delta.highlight.color }]}>
+                  {delta.text}
+                  {delta.highlight && `\n${t(delta.highlight.label)}`}
+                </Text>
+              ) : null}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+/** Current conditions and the daily forecast of two to four places, side by side. */
+export default function CompareScreen() {
+  const { t, locale } = useTranslation();
+  const compared = useStore(comparisonStore);
+  const favorites = useStore(favoritesStore);
+  const [search, setSearch] = useState('');
+  const { suggestions, loading } = usePlaceSuggestions(search);
+  const textColor = useThemeColor({}, 'text');
+  const mutedColor = useThemeColor({}, 'icon');
+
+  const queries = useMemo(() => compared.map(toLocationQuery), [compared]);
+  const reports = useWeatherReports(queries);
+  const reportFor = (index: number): WeatherReport | undefined => reports[weatherCacheKey(queries[index])];
+
+  const now = Date.now() / 1000;
+  const currentColumns = compared.map((location, index) => {
+    const report = reportFor(index);
+    return { id: location.id, snapshot: report ? toCurrentSnapshot(report, now) : null };
+  });
+
+  const daily = compared.map((_, index) => {
+    const report = reportFor(index);
+    return report ? aggregateDailyForecast(report.forecast) : null;
+  });
+  // Days are lined up by calendar date, taken from the first place that has a forecast.
+  const dates = (daily.find(Boolean) ?? []).slice(0, FORECAST_DAYS).map((day) => day.date);
+
+  const canAdd = compared.length < MAX_COMPARED;
+  const candidates = favorites.filter((favorite) => !compared.some((location) => location.id === favorite.id));
+
+  const handleAdd = (place: { name: string; lat: number; lon: number }) => {
+    addComparedLocation(place);
+    setSearch('');
+  };
 
-export default function TabTwoScreen() {
   return (
     <ParallaxScrollView
-      headerBackgroundColor={{ light: '#D0D0D0', dark: '#353636' }}
-      headerImage={
-        <IconSymbol
-          size={310}
-          color="#808080"
-          name="chevron.left.forwardslash.chevron.right"
-          style={styles.headerImage}
-        />
-      }>
+      headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
+      headerImage={<IconSymbol size={310} color="#808080" name="chart.bar.fill" style={styles.headerImage} />}>
       <ThemedView style={styles.titleContainer}>
-        <ThemedText type="title">Explore</ThemedText>
+        <ThemedText type="title">{t('compare.title')}</ThemedText>
       </ThemedView>
-      <ThemedText>This app includes example code to help you get started.</ThemedText>
-      <Collapsible title="File-based routing">
-        <ThemedText>
-          This app has two screens:{' '}
-          <ThemedText type="defaultSemiBold">app/(tabs)/index.tsx</ThemedText> and{' '}
-          <ThemedText type="defaultSemiBold">app/(tabs)/explore.tsx</ThemedText>
-        </ThemedText>
-        <ThemedText>
-          The layout file in <ThemedText type="defaultSemiBold">app/(tabs)/_layout.tsx</ThemedText>{' '}
-          sets up the tab navigator.
-        </ThemedText>
-        <ExternalLink href="https://docs.expo.dev/router/introduction">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Android, iOS, and web support">
-        <ThemedText>
-          You can open this project on Android, iOS, and the web. To open the web version, press{' '}
-          <ThemedText type="defaultSemiBold">w</ThemedText> in the terminal running this project.
-        </ThemedText>
-      </Collapsible>
-      <Collapsible title="Images">
-        <ThemedText>
-          For static images, you can use the <ThemedText type="defaultSemiBold">@2x</ThemedText> and{' '}
-          <ThemedText type="defaultSemiBold">@3x</ThemedText> suffixes to provide files for
-          different screen densities
-        </ThemedText>
-        <Image source={require('@/assets/images/react-logo.png')} style={{ alignSelf: 'center' }} />
-        <ExternalLink href="https://reactnative.dev/docs/images">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Custom fonts">
-        <ThemedText>
-          Open <ThemedText type="defaultSemiBold">app/_layout.tsx</ThemedText> to see how to load{' '}
-          <ThemedText style={{ fontFamily: 'SpaceMono' }}>
-            custom fonts such as this one.
-          </ThemedText>
-        </ThemedText>
-        <ExternalLink href="https://docs.expo.dev/versions/latest/sdk/font">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Light and dark mode components">
-        <ThemedText>
-          This template has light and dark mode support. The{' '}
-          <ThemedText type="defaultSemiBold">useColorScheme()</ThemedText> hook lets you inspect
-          what the user&apos;s current color scheme is, and so you can adjust UI colors accordingly.
-        </ThemedText>
-        <ExternalLink href="https://docs.expo.dev/develop/user-interface/color-themes/">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Animations">
-        <ThemedText>
-          This template includes an example of an animated component. The{' '}
-          <ThemedText type="defaultSemiBold">components/HelloWave.tsx</ThemedText> component uses
-          the powerful <ThemedText type="defaultSemiBold">react-native-reanimated</ThemedText>{' '}
-          library to create a waving hand animation.
-        </ThemedText>
-        {Platform.select({
-          ios: (
-            <ThemedText>
-              The <ThemedText type="defaultSemiBold">components/ParallaxScrollView.tsx</ThemedText>{' '}
-              component provides a parallax effect for the header image.
-            </ThemedText>
-          ),
-        })}
-      </Collapsible>
+      <ThemedText>{t('compare.intro')}</ThemedText>
+
+      <View style={styles.chips}>
+        {compared.map((location) => (
+          <View key={location.id} style={[styles.chip, { borderColor: mutedColor }]}>
+            <ThemedText style={styles.chipText}>{location.name}</ThemedText>
+            {compared.length > MIN_COMPARED && (
+              <TouchableOpacity
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.removeComparison', { name: location.name })}
+                onPress={() => removeComparedLocation(location.id)}
+                hitSlop={8}>
+                <ThemedText style={styles.chipText}>✕</ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+      </View>
+
+      {canAdd && (
+        <Collapsible title={t('compare.add')}>
+          {candidates.length > 0 && (
+            <View style={styles.chips}>
+              {candidates.map((favorite) => (
+                <TouchableOpacity
+                  key={favorite.id}
+                  style={[styles.chip, { borderColor: mutedColor }]}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('a11y.addComparison', { name: favorite.name })}
+                  onPress={() => handleAdd(favorite)}>
+                  <ThemedText style={styles.chipText}>+ {favorite.name}</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <TextInput
+            style={[styles.input, { color: textColor, borderColor: mutedColor }]}
+            placeholder={t('search.placeholder')}
+            placeholderTextColor={mutedColor}
+            value={search}
+            onChangeText={setSearch}
+          />
+          {loading && suggestions.length === 0 && <ThemedText style={styles.delta}>…</ThemedText>}
+          {suggestions.map((place) => (
+            <TouchableOpacity
+              key={`${place.lat},${place.lon}`}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.addComparison', {
+                name: [place.name, place.region, place.country].filter(Boolean).join(', '),
+              })}
+              onPress={() => handleAdd(place)}>
+              <ThemedText>
+                {place.name}
+                <ThemedText style={styles.delta}>
+                  {' '}
+                  {[place.region, place.country].filter(Boolean).join(', ')}
+                </ThemedText>
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </Collapsible>
+      )}
+
+      {compared.length < MIN_COMPARED ? (
+        <ThemedText>{t('compare.needMore')}</ThemedText>
+      ) : (
+        <>
+          <View style={styles.row}>
+            {compared.map((location) => (
+              <ThemedText key={location.id} type="defaultSemiBold" style={styles.cell} numberOfLines={2}>
+                {location.name}
+              </ThemedText>
+            ))}
+          </View>
+
+          <ThemedText type="subtitle">{t('compare.now')}</ThemedText>
+          {CURRENT_METRICS.map((metric) => (
+            <MetricRow key={metric.label} metric={metric} columns={currentColumns} />
+          ))}
+
+          <ThemedText type="subtitle">{t('compare.daily')}</ThemedText>
+          {dates.map((date) => {
+            const columns = compared.map((location, index) => ({
+              id: location.id,
+              snapshot: daily[index]?.find((day) => day.date === date) ?? null,
+            }));
+            return (
+              <Collapsible key={date} title={formatWeekday(date, locale)}>
+                <View style={styles.row}>
+                  {columns.map(({ id, snapshot }) => (
+                    <View key={id} style={styles.cell}>
+                      {snapshot ? (
+                        <>
+                          <ConditionIcon condition={snapshot.condition} size={24} night={false} color={textColor} />
+                          <ThemedText>{translateConditionGroup(t, snapshot.condition.main)}</ThemedText>
+                        </>
+                      ) : (
+                        <ThemedText>—</ThemedText>
+                      )}
+                    </View>
+                  ))}
+                </View>
+                {DAILY_METRICS.map((metric) => (
+                  <MetricRow key={metric.label} metric={metric} columns={columns} />
+                ))}
+              </Collapsible>
+            );
+          })}
+        </>
+      )}
     </ParallaxScrollView>
   );
 }
@@ -107,4 +364,55 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  metric: {
+    gap: 4,
+    marginTop: 8,
+  },
+  metricLabel: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  cell: {
+    flex: 1,
+  },
+  delta: {
+    fontSize: 12,
+    lineHeight: 16,
+    opacity: 0.7,
+  },
+  deltaText: {
+    color: '#808080',
+    opacity: 1,
+    fontWeight: '600',
+  },
 });
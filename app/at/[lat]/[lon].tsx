@@ -0,0 +1,17 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+import React, { useMemo } from 'react';
+
+import { LocationWeatherScreen } from '@/components/LocationWeatherScreen';
+import { parseCoordinates } from '@/utils/links';
+
+/** `/at/6.0535/80.2210?name=Galle`: the weather at a point, optionally labelled. */
+export default function CoordinatesScreen() {
+  const { lat, lon, name } = useLocalSearchParams<{ lat: string; lon: string; name?: string }>();
+  const query = useMemo(() => {
+    const point = parseCoordinates(lat, lon);
+    return point && { ...point, name };
+  }, [lat, lon, name]);
+
+  if (!query) return <Redirect href="/" />;
+  return <LocationWeatherScreen query={query} />;
+}
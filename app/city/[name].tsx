@@ -0,0 +1,12 @@
+import { useLocalSearchParams } from 'expo-router';
+import React, { useMemo } from 'react';
+
+import { LocationWeatherScreen } from '@/components/LocationWeatherScreen';
+
+/** `/city/Galle`, or `lankaweather://city/Galle`: the weather for a place looked up by name. */
+export default function CityScreen() {
+  const { name } = useLocalSearchParams<{ name: string }>();
+  const query = useMemo(() => ({ q: name }), [name]);
+
+  return <LocationWeatherScreen query={query} />;
+}
@@ -0,0 +1,244 @@
+import { BlurView } from 'expo-blur';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router, Stack } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import { FlatList, RefreshControl, SafeAreaView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ConditionIcon } from '@/components/ConditionIcon';
+import { WeatherPalette } from '@/constants/Colors';
+import { DistrictWeather, useDistrictWeather } from '@/hooks/useDistrictWeather';
+import { useNow } from '@/hooks/useNow';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useBackdropPalette } from '@/hooks/useWeatherPalette';
+import { TranslationKey, translateConditionGroup } from '@/i18n';
+import { upcomingRain } from '@/utils/forecast';
+import { formatPercent, formatPrecipitation, formatTemperature } from '@/utils/units';
+
+type SortKey = 'name' | 'temperature' | 'rain';
+
+const SORT_OPTIONS: { key: SortKey; label: TranslationKey }[] = [
+  { key: 'name', label: 'districts.sortName' },
+  { key: 'temperature', label: 'districts.sortTemperature' },
+  { key: 'rain', label: 'districts.sortRain' },
+];
+
+type Row = DistrictWeather & { name: string; rain: { probability: number; amount: number } | null };
+
+/** Districts without data yet sort after those with it, whatever the order. */
+const compareMissingLast = <T,>(a: T | null, b: T | null, compare: (a: T, b: T) => number) => {
+  if (a === null || b === null) return a === null ? (b === null ? 0 : 1) : -1;
+  return compare(a, b);
+};
+
+/** All 25 districts at a glance, sortable by name, temperature or rain in the next 24 hours. */
+export default function DistrictsScreen() {
+  const { districts, loading, refresh } = useDistrictWeather();
+  const { units } = usePreferences();
+  const { t, language, locale } = useTranslation();
+  const now = useNow();
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const palette = useBackdropPalette('Rain');
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const rows = useMemo(() => {
+    const withSummary: Row[] = districts.map((row) => ({
+      ...row,
+      name: row.district.names[language],
+      rain: row.report ? upcomingRain(row.report.forecast, now / 1000) : null,
+    }));
+
+    return withSummary.sort((a, b) => {
+      switch (sortKey) {
+        case 'temperature':
+          return compareMissingLast(a.report, b.report, (x, y) => y.current.temperature - x.current.temperature);
+        case 'rain':
+          return compareMissingLast(a.rain, b.rain, (x, y) => y.probability - x.probability || y.amount - x.amount);
+        default:
+          return a.name.localeCompare(b.name, locale);
+      }
+    });
+  }, [districts, sortKey, language, locale, now]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <StatusBar barStyle={palette.statusBar} translucent backgroundColor="transparent" />
+
+      <LinearGradient
+        colors={palette.gradient}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.gradient}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.back')}
+            onPress={() => router.back()}
+          >
+            <Text style={styles.backText}>‹</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>{t('districts.title')}</Text>
+        </View>
+
+        <View style={styles.sortOptions}>
+          {SORT_OPTIONS.map(({ key, label }) => (
+            <TouchableOpacity
+              key={key}
+              style={[styles.sortOption, sortKey === key && styles.selectedSortOption]}
+              accessibilityRole="button"
+              accessibilityState={{ selected: sortKey === key }}
+              onPress={() => setSortKey(key)}
+            >
+              <Text style={styles.sortOptionText}>{t(label)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <FlatList
+          data={rows}
+          keyExtractor={(row) => row.district.id}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={loading} onRefresh={refresh} tintColor={palette.text} colors={[palette.text]} />
+          }
+          renderItem={({ item: row }) => (
+            <BlurView intensity={20} tint={palette.blurTint} style={styles.row}>
+              <View style={styles.nameColumn}>
+                <Text style={styles.name}>{row.name}</Text>
+                <Text style={styles.condition}>
+                  {row.report
+                    ? translateConditionGroup(t, row.report.current.condition.main)
+                    : row.loading
+                      ? '…'
+                      : t('districts.unavailable')}
+                </Text>
+              </View>
+              {row.report && row.rain && (
+                <>
+                  <ConditionIcon condition={row.report.current.condition} size={26} color={palette.text} style={styles.icon} />
+                  <View style={styles.rainColumn}>
+                    <Text style={styles.rainChance}>💧 {formatPercent(row.rain.probability, locale)}</Text>
+                    <Text style={styles.rainAmount}>{formatPrecipitation(row.rain.amount, units.distance, locale)}</Text>
+                  </View>
+                  <Text style={styles.temperature}>
+                    {formatTemperature(row.report.current.temperature, units.temperature, { locale })}
+                  </Text>
+                </>
+              )}
+            </BlurView>
+          )}
+        />
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: palette.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  backText: {
+    color: palette.text,
+    fontSize: 28,
+    fontWeight: '300',
+    marginTop: -4,
+  },
+  title: {
+    flex: 1,
+    color: palette.text,
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  sortOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 16,
+  },
+  sortOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: palette.surface,
+    borderWidth: 1,
+    borderColor: palette.border,
+  },
+  selectedSortOption: {
+    backgroundColor: palette.surfaceSelected,
+    borderColor: palette.text,
+  },
+  sortOptionText: {
+    color: palette.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 30,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    marginBottom: 8,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  nameColumn: {
+    flex: 1,
+  },
+  name: {
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  condition: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  icon: {
+    marginHorizontal: 8,
+  },
+  rainColumn: {
+    alignItems: 'flex-end',
+    width: 72,
+    marginRight: 8,
+  },
+  rainChance: {
+    color: palette.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  rainAmount: {
+    color: palette.textMuted,
+    fontSize: 11,
+  },
+  temperature: {
+    width: 48,
+    color: palette.text,
+    fontSize: 22,
+    fontWeight: '300',
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,309 @@
+import { BlurView } from 'expo-blur';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Redirect, router, Stack, useLocalSearchParams } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import { SafeAreaView, ScrollView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { HistoryChart } from '@/components/HistoryChart';
+import { WeatherPalette } from '@/constants/Colors';
+import { useNow } from '@/hooks/useNow';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useStore } from '@/hooks/useStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useBackdropPalette, WeatherPaletteContext } from '@/hooks/useWeatherPalette';
+import { TranslationKey } from '@/i18n';
+import { historyKeyFor, historyStore } from '@/services/history';
+import { formatSignedNumber } from '@/utils/comparison';
+import { bucketMetric, DAY, OBSERVATION_METRICS, ObservationMetric, summarizeMetric } from '@/utils/history';
+import { parseCoordinates } from '@/utils/links';
+import {
+  convertPressure,
+  convertTemperature,
+  convertWindSpeed,
+  formatNumber,
+  formatPressure,
+  formatTemperature,
+  formatWindSpeed,
+  UNIT_LABELS,
+  UnitPreferences,
+} from '@/utils/units';
+
+type Range = {
+  days: number;
+  /** Width of one chart point, in seconds. */
+  bucket: number;
+  label: TranslationKey;
+  /** Overlay the period before, e.g. last week under this week. */
+  comparePrevious: boolean;
+};
+
+const RANGES: Range[] = [
+  { days: 7, bucket: DAY / 8, label: 'history.week', comparePrevious: true },
+  { days: 30, bucket: DAY / 2, label: 'history.month', comparePrevious: false },
+];
+
+type MetricDisplay = {
+  label: TranslationKey;
+  format: (value: number, units: UnitPreferences, locale: string) => string;
+  /** The value in the user's display unit, which differences are computed in. */
+  convert: (value: number, units: UnitPreferences) => number;
+  decimals: number;
+  unit: (units: UnitPreferences) => string;
+};
+
+const METRIC_DISPLAY: Record<ObservationMetric, MetricDisplay> = {
+  temperature: {
+    label: 'units.temperature',
+    format: (celsius, units, locale) => formatTemperature(celsius, units.temperature, { decimals: 1, locale }),
+    convert: (celsius, units) => convertTemperature(celsius, units.temperature),
+    decimals: 1,
+    unit: () => '°',
+  },
+  humidity: {
+    label: 'cards.humidity',
+    format: (percent, _units, locale) => `${formatNumber(percent, 0, locale)}%`,
+    convert: (percent) => percent,
+    decimals: 0,
+    unit: () => '%',
+  },
+  pressure: {
+    label: 'units.pressure',
+    format: (hectopascals, units, locale) => formatPressure(hectopascals, units.pressure, locale),
+    convert: (hectopascals, units) => convertPressure(hectopascals, units.pressure),
+    decimals: 1,
+    unit: (units) => ` ${UNIT_LABELS.pressure[units.pressure]}`,
+  },
+  windSpeed: {
+    label: 'cards.windSpeed',
+    format: (metresPerSecond, units, locale) => formatWindSpeed(metresPerSecond, units.windSpeed, locale),
+    convert: (metresPerSecond, units) => convertWindSpeed(metresPerSecond, units.windSpeed),
+    decimals: 1,
+    unit: (units) => ` ${UNIT_LABELS.windSpeed[units.windSpeed]}`,
+  },
+};
+
+/** Axis labels in the device's calendar; observations carry no timezone of their own. */
+const axisLabels = ({ days }: Range, from: number, locale: string) =>
+  days <= 7
+    ? Array.from({ length: days }, (_, index) =>
+        new Date((from + (index + 0.5) * DAY) * 1000).toLocaleDateString(locale, { weekday: 'short' })
+      )
+    : Array.from({ length: 5 }, (_, index) =>
+        new Date((from + (index * days * DAY) / 4) * 1000).toLocaleDateString(locale, { day: 'numeric', month: 'short' })
+      );
+
+/** `/history?lat=…&lon=…&name=…`: charts of the conditions recorded near a place. */
+export default function HistoryScreen() {
+  const params = useLocalSearchParams<{ lat?: string; lon?: string; name?: string }>();
+  const coords = parseCoordinates(params.lat, params.lon);
+  const key = coords ? historyKeyFor(coords) : '';
+  const store = useMemo(() => historyStore(key), [key]);
+  const observations = useStore(store);
+  const { units } = usePreferences();
+  const { t, locale } = useTranslation();
+  const now = useNow() / 1000;
+  const [range, setRange] = useState(RANGES[0]);
+  const palette = useBackdropPalette('Clouds');
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  if (!coords) return <Redirect href="/" />;
+
+  const from = now - range.days * DAY;
+  const previousFrom = from - range.days * DAY;
+
+  const describe = (metric: ObservationMetric) => {
+    const display = METRIC_DISPLAY[metric];
+    const current = summarizeMetric(observations, metric, from, now);
+    if (!current) return null;
+    const mean = display.format(current.mean, units, locale);
+    if (!range.comparePrevious) {
+      return t('history.rangeSummary', {
+        mean,
+        min: display.format(current.min, units, locale),
+        max: display.format(current.max, units, locale),
+      });
+    }
+    const previous = summarizeMetric(observations, metric, previousFrom, from);
+    if (!previous) return t('history.average', { mean });
+    const difference = display.convert(current.mean, units) - display.convert(previous.mean, units);
+    return t('history.weekSummary', {
+      mean,
+      previous: display.format(previous.mean, units, locale),
+      delta: `${formatSignedNumber(difference, display.decimals, locale)}${display.unit(units)}`,
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <StatusBar barStyle={palette.statusBar} translucent backgroundColor="transparent" />
+
+      <LinearGradient
+        colors={palette.gradient}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.gradient}
+      >
+        <WeatherPaletteContext.Provider value={palette}>
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.back')}
+              onPress={() => router.back()}
+            >
+              <Text style={styles.backText}>‹</Text>
+            </TouchableOpacity>
+            <View style={styles.titleColumn}>
+              <Text style={styles.title}>{t('history.title')}</Text>
+              {params.name && <Text style={styles.subtitle}>{params.name}</Text>}
+            </View>
+          </View>
+
+          <View style={styles.rangeOptions}>
+            {RANGES.map((option) => (
+              <TouchableOpacity
+                key={option.days}
+                style={[styles.rangeOption, range === option && styles.selectedRangeOption]}
+                accessibilityRole="button"
+                accessibilityState={{ selected: range === option }}
+                onPress={() => setRange(option)}
+              >
+                <Text style={styles.rangeOptionText}>{t(option.label)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ScrollView contentContainerStyle={styles.list}>
+            {observations.length < 2 ? (
+              <Text style={styles.empty}>{t('history.empty')}</Text>
+            ) : (
+              <>
+                {range.comparePrevious && (
+                  <Text style={styles.legend}>
+                    ━ {t('history.thisWeek')}{'   '}┅ {t('history.lastWeek')}
+                  </Text>
+                )}
+                {OBSERVATION_METRICS.map((metric) => {
+                  const display = METRIC_DISPLAY[metric];
+                  return (
+                    <BlurView key={metric} intensity={20} tint={palette.blurTint} style={styles.card}>
+                      <Text style={styles.cardTitle}>{t(display.label)}</Text>
+                      <Text style={styles.summary}>{describe(metric) ?? t('history.noData')}</Text>
+                      <HistoryChart
+                        values={bucketMetric(observations, metric, from, now, range.bucket)}
+                        previous={
+                          range.comparePrevious
+                            ? bucketMetric(observations, metric, previousFrom, from, range.bucket)
+                            : undefined
+                        }
+                        format={(value) => display.format(value, units, locale)}
+                        labels={axisLabels(range, from, locale)}
+                      />
+                    </BlurView>
+                  );
+                })}
+              </>
+            )}
+          </ScrollView>
+        </WeatherPaletteContext.Provider>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: palette.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  backText: {
+    color: palette.text,
+    fontSize: 28,
+    fontWeight: '300',
+    marginTop: -4,
+  },
+  titleColumn: {
+    flex: 1,
+  },
+  title: {
+    color: palette.text,
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  subtitle: {
+    color: palette.textSecondary,
+    fontSize: 14,
+  },
+  rangeOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 16,
+  },
+  rangeOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: palette.surface,
+    borderWidth: 1,
+    borderColor: palette.border,
+  },
+  selectedRangeOption: {
+    backgroundColor: palette.surfaceSelected,
+    borderColor: palette.text,
+  },
+  rangeOptionText: {
+    color: palette.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 30,
+  },
+  empty: {
+    color: palette.textSecondary,
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  legend: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  card: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  cardTitle: {
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  summary: {
+    color: palette.textSecondary,
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,168 @@
+import { BlurView } from 'expo-blur';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import { SafeAreaView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { WeatherMap } from '@/components/WeatherMap';
+import { WeatherPalette } from '@/constants/Colors';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useBackdropPalette, WeatherPaletteContext } from '@/hooks/useWeatherPalette';
+import { TranslationKey } from '@/i18n';
+import { Coordinates } from '@/services/weather';
+import { WEATHER_LAYERS, WeatherLayer } from '@/services/weather/tiles';
+import { parseCoordinates } from '@/utils/links';
+
+/** Centre of Sri Lanka, used when the screen is opened without coordinates. */
+const DEFAULT_CENTER: Coordinates = { lat: 7.8731, lon: 80.7718 };
+
+const LAYER_LABELS: Record<WeatherLayer, TranslationKey> = {
+  precipitation: 'map.precipitation',
+  clouds: 'map.clouds',
+  temperature: 'map.temperature',
+  wind: 'map.wind',
+};
+
+/** Weather map; long-pressing a point shows its weather on the home screen. */
+export default function MapScreen() {
+  const params = useLocalSearchParams<{ lat?: string; lon?: string }>();
+  const { t } = useTranslation();
+  const [layers, setLayers] = useState<WeatherLayer[]>(['precipitation']);
+  const center = parseCoordinates(params.lat, params.lon) ?? DEFAULT_CENTER;
+  // A neutral backdrop: its controls sit over map tiles rather than a weather gradient.
+  const palette = useBackdropPalette('Mist');
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const toggleLayer = (layer: WeatherLayer) => {
+    setLayers((current) => (current.includes(layer) ? current.filter((item) => item !== layer) : [...current, layer]));
+  };
+
+  const handleLongPress = (point: Coordinates) => {
+    router.navigate({ pathname: '/', params: { lat: String(point.lat), lon: String(point.lon) } });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <StatusBar barStyle={palette.statusBar} translucent backgroundColor="transparent" />
+
+      <WeatherPaletteContext.Provider value={palette}>
+        <WeatherMap center={center} layers={layers} onLongPress={handleLongPress} />
+      </WeatherPaletteContext.Provider>
+
+      <View style={styles.overlay} pointerEvents="box-none">
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.back')}
+            onPress={() => router.back()}
+          >
+            <Text style={styles.backText}>‹</Text>
+          </TouchableOpacity>
+          <BlurView intensity={40} tint={palette.blurTint} style={styles.titleBlur}>
+            <Text style={styles.title}>{t('map.title')}</Text>
+          </BlurView>
+        </View>
+        <View style={styles.layers}>
+          {WEATHER_LAYERS.map((layer) => (
+            <TouchableOpacity
+              key={layer}
+              style={[styles.layer, layers.includes(layer) && styles.selectedLayer]}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: layers.includes(layer) }}
+              onPress={() => toggleLayer(layer)}
+            >
+              <Text style={styles.layerText}>{t(LAYER_LABELS[layer])}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <BlurView intensity={40} tint={palette.blurTint} style={styles.hint}>
+        <Text style={styles.hintText}>📍 {t('map.hint')}</Text>
+      </BlurView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: palette.gradient[0],
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    paddingTop: 48,
+    paddingHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: palette.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  backText: {
+    color: palette.text,
+    fontSize: 28,
+    fontWeight: '300',
+    marginTop: -4,
+  },
+  titleBlur: {
+    borderRadius: 20,
+    overflow: 'hidden',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  title: {
+    color: palette.text,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  layers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  layer: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: palette.surface,
+    borderWidth: 1,
+    borderColor: palette.border,
+  },
+  selectedLayer: {
+    backgroundColor: palette.surfaceSelected,
+    borderColor: palette.text,
+  },
+  layerText: {
+    color: palette.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  hint: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 32,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  hintText: {
+    color: palette.text,
+    fontSize: 14,
+    textAlign: 'center',
+    padding: 12,
+  },
+});
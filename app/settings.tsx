@@ -0,0 +1,479 @@
+import { BlurView } from 'expo-blur';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router, Stack } from 'expo-router';
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import {
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { WeatherPalette } from '@/constants/Colors';
+import { usePlaceSuggestions } from '@/hooks/usePlaceSuggestions';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useStore } from '@/hooks/useStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useBackdropPalette, useWeatherPalette, useWeatherStyles, WeatherPaletteContext } from '@/hooks/useWeatherPalette';
+import { LANGUAGE_NAMES, LanguagePreference, LANGUAGES, TranslationKey } from '@/i18n';
+import { favoriteIdFor, favoritesStore } from '@/services/favorites';
+import {
+  DefaultLocation,
+  setAlertThreshold,
+  setCardVisible,
+  setPreference,
+  setUnitPreference,
+  ThemePreference,
+  WEATHER_CARDS,
+  WeatherCard,
+} from '@/services/preferences';
+import { httpCacheStats } from '@/services/weather/http';
+import { TimeFormat } from '@/utils/time';
+import {
+  formatPrecipitation,
+  formatTemperature,
+  formatWindSpeed,
+  UNIT_LABELS,
+  UnitPreferences,
+} from '@/utils/units';
+
+const UNIT_SECTIONS: { key: keyof UnitPreferences; title: TranslationKey }[] = [
+  { key: 'temperature', title: 'units.temperature' },
+  { key: 'windSpeed', title: 'units.windSpeed' },
+  { key: 'pressure', title: 'units.pressure' },
+  { key: 'distance', title: 'units.distance' },
+];
+
+const LANGUAGE_OPTIONS: LanguagePreference[] = ['system', ...LANGUAGES];
+
+const THEME_LABELS: Record<ThemePreference, TranslationKey> = {
+  system: 'settings.themeSystem',
+  light: 'settings.themeLight',
+  dark: 'settings.themeDark',
+  highContrast: 'settings.themeHighContrast',
+};
+
+const TIME_FORMAT_LABELS: Record<TimeFormat, TranslationKey> = {
+  system: 'settings.timeSystem',
+  '12h': 'settings.time12',
+  '24h': 'settings.time24',
+};
+
+/** Minutes between automatic refreshes; 0 turns them off. */
+const REFRESH_INTERVALS = [0, 15, 30, 60];
+
+/** Choices offered for each alert threshold, in the domain's metric units. */
+const RAIN_THRESHOLDS = [10, 20, 30, 50];
+const WIND_THRESHOLDS = [10, 14, 17, 21];
+const HEAT_THRESHOLDS = [36, 38, 40, 42];
+
+const CARD_LABELS: Record<WeatherCard, TranslationKey> = {
+  hourly: 'forecast.hourly',
+  daily: 'forecast.daily',
+  airQuality: 'airQuality.title',
+  uvIndex: 'uv.title',
+  feelsLike: 'cards.feelsLike',
+  humidity: 'cards.humidity',
+  windSpeed: 'cards.windSpeed',
+  pressure: 'cards.pressure',
+  visibility: 'cards.visibility',
+  sunrise: 'cards.sunrise',
+};
+
+type Option<T> = { value: T; label: string };
+
+type OptionGroupProps<T> = {
+  title: string;
+  options: Option<T>[];
+  selected: T;
+  onSelect: (value: T) => void;
+};
+
+/** A titled row of mutually exclusive chips. */
+function OptionGroup<T extends string | number | boolean>({ title, options, selected, onSelect }: OptionGroupProps<T>) {
+  const styles = useWeatherStyles(createStyles);
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <View style={styles.options}>
+        {options.map(({ value, label }) => (
+          <TouchableOpacity
+            key={String(value)}
+            style={[styles.option, selected === value && styles.selectedOption]}
+            accessibilityRole="button"
+            accessibilityState={{ selected: selected === value }}
+            onPress={() => onSelect(value)}
+          >
+            <Text style={styles.optionText}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+/** Saved places plus a search box, for the place shown when the current position is not used. */
+function DefaultLocationPicker({ selected }: { selected: DefaultLocation }) {
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+  const favorites = useStore(favoritesStore);
+  const [text, setText] = useState('');
+  const { suggestions, loading } = usePlaceSuggestions(text);
+  const { t } = useTranslation();
+  const selectedId = favoriteIdFor(selected);
+
+  const choose = (location: DefaultLocation) => {
+    setPreference('defaultLocation', { name: location.name, lat: location.lat, lon: location.lon });
+    setText('');
+  };
+
+  const candidates: DefaultLocation[] = [
+    selected,
+    ...favorites.filter((favorite) => favorite.id !== selectedId),
+    ...suggestions,
+  ];
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{t('settings.defaultLocation')}</Text>
+      <Text style={styles.hint}>{t('settings.defaultLocationHint')}</Text>
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.input}
+          placeholder={t('search.placeholder')}
+          placeholderTextColor={palette.textMuted}
+          value={text}
+          onChangeText={setText}
+        />
+        {loading && <ActivityIndicator color={palette.text} />}
+      </View>
+      <View style={styles.options}>
+        {candidates.map((location, index) => (
+          <TouchableOpacity
+            key={`${index}:${location.lat},${location.lon}`}
+            style={[styles.option, index === 0 && styles.selectedOption]}
+            accessibilityRole="button"
+            accessibilityState={{ selected: index === 0 }}
+            onPress={() => choose(location)}
+          >
+            <Text style={styles.optionText}>{location.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+/** Response cache counters since launch, shown in development builds to check the cache is doing its job. */
+function CacheStatsReadout() {
+  const styles = useWeatherStyles(createStyles);
+  const stats = useSyncExternalStore(httpCacheStats.subscribe, httpCacheStats.get);
+  const { t } = useTranslation();
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{t('debug.cacheTitle')}</Text>
+      <Text style={styles.debugText}>
+        {t('debug.cacheStats', {
+          hits: stats.hits,
+          misses: stats.misses,
+          shared: stats.shared,
+          stale: stats.stale,
+        })}
+      </Text>
+    </View>
+  );
+}
+
+/** `/settings`: location, refresh, appearance, units, alerts and which cards the weather page shows. */
+export default function SettingsScreen() {
+  const {
+    units,
+    language,
+    alertThresholds,
+    alertNotifications,
+    defaultLocation,
+    useGps,
+    refreshIntervalMinutes,
+    theme,
+    timeFormat,
+    hiddenCards,
+  } = usePreferences();
+  const { t, locale } = useTranslation();
+  const palette = useBackdropPalette('Clouds');
+  const styles = useMemo(() => createStyles(palette), [palette]);
+  const onOff: Option<boolean>[] = [
+    { value: true, label: t('common.on') },
+    { value: false, label: t('common.off') },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <StatusBar barStyle={palette.statusBar} translucent backgroundColor="transparent" />
+
+      <LinearGradient
+        colors={palette.gradient}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.gradient}
+      >
+        <WeatherPaletteContext.Provider value={palette}>
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.back')}
+              onPress={() => router.back()}
+            >
+              <Text style={styles.backText}>‹</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>{t('settings.title')}</Text>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.list} keyboardShouldPersistTaps="handled">
+            <BlurView intensity={20} tint={palette.blurTint} style={styles.card}>
+              <Text style={styles.groupTitle}>{t('settings.location')}</Text>
+              <OptionGroup
+                title={t('settings.useGps')}
+                options={onOff}
+                selected={useGps}
+                onSelect={(value) => setPreference('useGps', value)}
+              />
+              <DefaultLocationPicker selected={defaultLocation} />
+              <OptionGroup
+                title={t('settings.refreshInterval')}
+                options={REFRESH_INTERVALS.map((minutes) => ({
+                  value: minutes,
+                  label: minutes === 0 ? t('common.off') : t('settings.minutes', { count: minutes }),
+                }))}
+                selected={refreshIntervalMinutes}
+                onSelect={(value) => setPreference('refreshIntervalMinutes', value)}
+              />
+            </BlurView>
+
+            <BlurView intensity={20} tint={palette.blurTint} style={styles.card}>
+              <Text style={styles.groupTitle}>{t('settings.appearance')}</Text>
+              <OptionGroup
+                title={t('settings.theme')}
+                options={(Object.keys(THEME_LABELS) as ThemePreference[]).map((value) => ({
+                  value,
+                  label: t(THEME_LABELS[value]),
+                }))}
+                selected={theme}
+                onSelect={(value) => setPreference('theme', value)}
+              />
+              <OptionGroup
+                title={t('settings.timeFormat')}
+                options={(Object.keys(TIME_FORMAT_LABELS) as TimeFormat[]).map((value) => ({
+                  value,
+                  label: t(TIME_FORMAT_LABELS[value]),
+                }))}
+                selected={timeFormat}
+                onSelect={(value) => setPreference('timeFormat', value)}
+              />
+              <OptionGroup
+                title={t('preferences.language')}
+                options={LANGUAGE_OPTIONS.map((option) => ({
+                  value: option,
+                  label: option === 'system' ? t('preferences.systemLanguage') : LANGUAGE_NAMES[option],
+                }))}
+                selected={language}
+                onSelect={(option) => setPreference('language', option)}
+              />
+            </BlurView>
+
+            <BlurView intensity={20} tint={palette.blurTint} style={styles.card}>
+              <Text style={styles.groupTitle}>{t('settings.cards')}</Text>
+              <View style={[styles.section, styles.options]}>
+                {WEATHER_CARDS.map((card) => {
+                  const visible = !hiddenCards.includes(card);
+                  return (
+                    <TouchableOpacity
+                      key={card}
+                      style={[styles.option, visible && styles.selectedOption]}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: visible }}
+                      onPress={() => setCardVisible(card, !visible)}
+                    >
+                      <Text style={styles.optionText}>{t(CARD_LABELS[card])}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </BlurView>
+
+            <BlurView intensity={20} tint={palette.blurTint} style={styles.card}>
+              <Text style={styles.groupTitle}>{t('settings.units')}</Text>
+              {UNIT_SECTIONS.map(({ key, title }) => (
+                <OptionGroup
+                  key={key}
+                  title={t(title)}
+                  options={Object.entries(UNIT_LABELS[key]).map(([value, label]) => ({ value, label }))}
+                  selected={units[key]}
+                  onSelect={(value) => setUnitPreference(key, value as UnitPreferences[typeof key])}
+                />
+              ))}
+            </BlurView>
+
+            <BlurView intensity={20} tint={palette.blurTint} style={styles.card}>
+              <Text style={styles.groupTitle}>{t('alerts.title')}</Text>
+              <OptionGroup
+                title={t('preferences.notifications')}
+                options={onOff}
+                selected={alertNotifications}
+                onSelect={(value) => setPreference('alertNotifications', value)}
+              />
+              <OptionGroup
+                title={t('preferences.rainThreshold')}
+                options={RAIN_THRESHOLDS.map((value) => ({
+                  value,
+                  label: formatPrecipitation(value, units.distance, locale),
+                }))}
+                selected={alertThresholds.rain3h}
+                onSelect={(value) => setAlertThreshold('rain3h', value)}
+              />
+              <OptionGroup
+                title={t('preferences.windThreshold')}
+                options={WIND_THRESHOLDS.map((value) => ({
+                  value,
+                  label: formatWindSpeed(value, units.windSpeed, locale),
+                }))}
+                selected={alertThresholds.windSpeed}
+                onSelect={(value) => setAlertThreshold('windSpeed', value)}
+              />
+              <OptionGroup
+                title={t('preferences.heatThreshold')}
+                options={HEAT_THRESHOLDS.map((value) => ({
+                  value,
+                  label: formatTemperature(value, units.temperature, { showUnit: true, locale }),
+                }))}
+                selected={alertThresholds.heat}
+                onSelect={(value) => setAlertThreshold('heat', value)}
+              />
+              <OptionGroup
+                title={t('preferences.thunderstormAlerts')}
+                options={onOff}
+                selected={alertThresholds.thunderstorm}
+                onSelect={(value) => setAlertThreshold('thunderstorm', value)}
+              />
+            </BlurView>
+
+            {__DEV__ && <CacheStatsReadout />}
+          </ScrollView>
+        </WeatherPaletteContext.Provider>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: palette.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  backText: {
+    color: palette.text,
+    fontSize: 28,
+    fontWeight: '300',
+    marginTop: -4,
+  },
+  title: {
+    color: palette.text,
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 30,
+  },
+  card: {
+    padding: 16,
+    paddingBottom: 0,
+    marginBottom: 12,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  groupTitle: {
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  hint: {
+    color: palette.textMuted,
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  input: {
+    flex: 1,
+    color: palette.text,
+    fontSize: 15,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: palette.surface,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: palette.surface,
+    borderWidth: 1,
+    borderColor: palette.border,
+  },
+  selectedOption: {
+    backgroundColor: palette.surfaceSelected,
+    borderColor: palette.text,
+  },
+  optionText: {
+    color: palette.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  debugText: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    fontFamily: 'SpaceMono',
+  },
+});
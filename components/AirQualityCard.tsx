@@ -0,0 +1,123 @@
+import { BlurView } from 'expo-blur';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { AirQualitySheet } from '@/components/AirQualitySheet';
+import { WeatherPalette } from '@/constants/Colors';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useWeatherPalette, useWeatherStyles } from '@/hooks/useWeatherPalette';
+import { AirQuality } from '@/services/weather';
+import { AQI_LEVELS, pollutantLevel, POLLUTANTS, toAqiLevel } from '@/utils/airQuality';
+import { formatNumber } from '@/utils/units';
+
+type Props = {
+  airQuality: AirQuality;
+  timezoneOffset: number;
+};
+
+/** AQI summary, color-coded by category; tapping it opens the pollutant breakdown. */
+export function AirQualityCard({ airQuality, timezoneOffset }: Props) {
+  const { t, locale } = useTranslation();
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+  const [showingDetails, setShowingDetails] = useState(false);
+  const { aqi, components } = airQuality.current;
+  const level = AQI_LEVELS[toAqiLevel(aqi)];
+  // The pollutant in the worst band is the one worth naming on the card.
+  const dominant = POLLUTANTS.reduce((worst, candidate) =>
+    pollutantLevel(candidate.key, components[candidate.key]) > pollutantLevel(worst.key, components[worst.key])
+      ? candidate
+      : worst
+  );
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.card}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+        accessibilityLabel={[
+          t('airQuality.title'),
+          t('airQuality.index', { value: formatNumber(aqi, 0, locale) }),
+          t(level.label),
+          `${dominant.name} ${t('a11y.micrograms', { value: formatNumber(components[dominant.key], 1, locale) })}`,
+        ].join(', ')}
+        accessibilityHint={t('a11y.showDetails')}
+        onPress={() => setShowingDetails(true)}
+      >
+        <BlurView intensity={20} tint={palette.blurTint}>
+          <View style={[styles.content, { borderLeftColor: level.color }]}>
+            <Text style={styles.icon}>🫁</Text>
+            <View style={styles.info}>
+              <Text style={styles.title}>{t('airQuality.title')}</Text>
+              <Text style={styles.value}>
+                {t('airQuality.index', { value: formatNumber(aqi, 0, locale) })} · {t(level.label)}
+              </Text>
+              <Text style={styles.detail}>
+                {dominant.name} {formatNumber(components[dominant.key], 1, locale)} µg/m³
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </View>
+        </BlurView>
+      </TouchableOpacity>
+      <AirQualitySheet
+        visible={showingDetails}
+        onClose={() => setShowingDetails(false)}
+        airQuality={airQuality}
+        timezoneOffset={timezoneOffset}
+      />
+    </>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 16,
+    overflow: 'hidden',
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderLeftWidth: 4,
+  },
+  icon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  value: {
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  detail: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  chevron: {
+    color: palette.text,
+    fontSize: 28,
+    fontWeight: '300',
+  },
+});
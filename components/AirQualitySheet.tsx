@@ -0,0 +1,211 @@
+import { BlurView } from 'expo-blur';
+import React from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTranslation } from '@/hooks/useTranslation';
+import { AirQuality } from '@/services/weather';
+import { AQI_LEVELS, pollutantLevel, pollutantShare, POLLUTANTS, toAqiLevel } from '@/utils/airQuality';
+import { formatLocationHour } from '@/utils/time';
+import { formatNumber } from '@/utils/units';
+
+const HOURS_AHEAD = 48;
+const BAR_MAX_HEIGHT = 60;
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  airQuality: AirQuality;
+  timezoneOffset: number;
+};
+
+/** Modal sheet with each pollutant's concentration and the hourly AQI forecast. */
+export function AirQualitySheet({ visible, onClose, airQuality, timezoneOffset }: Props) {
+  const { t, locale } = useTranslation();
+  const { timeFormat } = usePreferences();
+  const level = AQI_LEVELS[toAqiLevel(airQuality.current.aqi)];
+  const hourly = airQuality.forecast.slice(0, HOURS_AHEAD);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <BlurView intensity={60} tint="dark" style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('airQuality.title')}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.done}>{t('common.done')}</Text>
+            </TouchableOpacity>
+          </View>
+          <ScrollView>
+            <View style={styles.summary}>
+              <View style={[styles.badge, { backgroundColor: level.color }]}>
+                <Text style={styles.badgeText}>{formatNumber(airQuality.current.aqi, 0, locale)}</Text>
+              </View>
+              <Text style={styles.summaryText}>{t(level.label)}</Text>
+            </View>
+
+            <Text style={styles.sectionTitle}>{t('airQuality.pollutants')}</Text>
+            {POLLUTANTS.map(({ key, name }) => {
+              const concentration = airQuality.current.components[key];
+              return (
+                <View key={key} style={styles.pollutantRow}>
+                  <Text style={styles.pollutantName}>{name}</Text>
+                  <View style={styles.track}>
+                    <View
+                      style={[
+                        styles.fill,
+                        {
+                          width: `${Math.max(2, pollutantShare(key, concentration) * 100)}%`,
+                          backgroundColor: AQI_LEVELS[pollutantLevel(key, concentration)].color,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.pollutantValue}>{formatNumber(concentration, 1, locale)} µg/m³</Text>
+                </View>
+              );
+            })}
+
+            {hourly.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>{t('airQuality.hourly')}</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {hourly.map((sample) => {
+                    const aqi = toAqiLevel(sample.aqi);
+                    return (
+                      <View key={sample.time} style={styles.hour}>
+                        <Text style={styles.hourValue}>{formatNumber(aqi, 0, locale)}</Text>
+                        <View style={styles.hourBarArea}>
+                          <View
+                            style={[
+                              styles.hourBar,
+                              { height: (aqi / 5) * BAR_MAX_HEIGHT, backgroundColor: AQI_LEVELS[aqi].color },
+                            ]}
+                          />
+                        </View>
+                        <Text style={styles.hourLabel}>{formatLocationHour(sample.time, timezoneOffset, locale, timeFormat)}</Text>
+                      </View>
+                    );
+                  })}
+                </ScrollView>
+              </>
+            )}
+          </ScrollView>
+        </BlurView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    maxHeight: '80%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    overflow: 'hidden',
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  done: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  badge: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  badgeText: {
+    color: '#1a1a1a',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  summaryText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  pollutantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  pollutantName: {
+    width: 56,
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  track: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    overflow: 'hidden',
+    marginHorizontal: 8,
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  pollutantValue: {
+    width: 96,
+    color: '#fff',
+    fontSize: 13,
+    textAlign: 'right',
+  },
+  hour: {
+    width: 40,
+    alignItems: 'center',
+  },
+  hourValue: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  hourBarArea: {
+    height: BAR_MAX_HEIGHT,
+    justifyContent: 'flex-end',
+  },
+  hourBar: {
+    width: 14,
+    borderRadius: 4,
+  },
+  hourLabel: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 11,
+    marginTop: 4,
+  },
+});
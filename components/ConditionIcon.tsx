@@ -0,0 +1,30 @@
+import { StyleProp, View, ViewStyle } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { conditionIcon } from '@/constants/Weather';
+import { useWeatherPalette } from '@/hooks/useWeatherPalette';
+import { WeatherCondition } from '@/services/weather';
+
+type Props = {
+  condition: Pick<WeatherCondition, 'id' | 'icon'>;
+  size: number;
+  /** Overrides the day or night variant the provider's icon code implies. */
+  night?: boolean;
+  /** Defaults to the text color of the backdrop on screen. */
+  color?: string;
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * The catalog's vector icon for a condition: an SF Symbol on iOS, a Material
+ * icon elsewhere. Hidden from screen readers, which get the condition's label
+ * from the surrounding text instead.
+ */
+export function ConditionIcon({ condition, size, night, color, style }: Props) {
+  const palette = useWeatherPalette();
+  return (
+    <View style={style} accessibilityElementsHidden importantForAccessibility="no-hide-descendants">
+      <IconSymbol name={conditionIcon(condition, night)} size={size} color={color ?? palette.text} />
+    </View>
+  );
+}
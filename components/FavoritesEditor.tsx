@@ -0,0 +1,141 @@
+import { BlurView } from 'expo-blur';
+import React from 'react';
+import { FlatList, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useStore } from '@/hooks/useStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { favoritesStore, moveFavorite, removeFavorite } from '@/services/favorites';
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+/** Modal sheet for reordering and deleting saved locations. */
+export function FavoritesEditor({ visible, onClose }: Props) {
+  const favorites = useStore(favoritesStore);
+  const { t } = useTranslation();
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <BlurView intensity={60} tint="dark" style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('favorites.title')}</Text>
+            <TouchableOpacity accessibilityRole="button" onPress={onClose}>
+              <Text style={styles.done}>{t('common.done')}</Text>
+            </TouchableOpacity>
+          </View>
+          <FlatList
+            data={favorites}
+            keyExtractor={(item) => item.id}
+            ListEmptyComponent={
+              <Text style={styles.empty}>{t('favorites.empty')}</Text>
+            }
+            renderItem={({ item, index }) => (
+              <View style={styles.row}>
+                <Text style={styles.name} numberOfLines={1}>{item.name}</Text>
+                <TouchableOpacity
+                  style={styles.action}
+                  disabled={index === 0}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('a11y.moveFavoriteUp', { name: item.name })}
+                  onPress={() => moveFavorite(item.id, -1)}
+                >
+                  <Text style={[styles.actionText, index === 0 && styles.disabled]}>↑</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.action}
+                  disabled={index === favorites.length - 1}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('a11y.moveFavoriteDown', { name: item.name })}
+                  onPress={() => moveFavorite(item.id, 1)}
+                >
+                  <Text style={[styles.actionText, index === favorites.length - 1 && styles.disabled]}>↓</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.action}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('a11y.removeNamedFavorite', { name: item.name })}
+                  onPress={() => removeFavorite(item.id)}
+                >
+                  <Text style={[styles.actionText, styles.delete]}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          />
+        </BlurView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    maxHeight: '70%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    overflow: 'hidden',
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  done: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  empty: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(255,255,255,0.2)',
+  },
+  name: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  action: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabled: {
+    opacity: 0.3,
+  },
+  delete: {
+    color: '#FF6B6B',
+  },
+});
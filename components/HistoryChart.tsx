@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, Line, Path } from 'react-native-svg';
+
+import { WeatherPalette } from '@/constants/Colors';
+import { useWeatherPalette, useWeatherStyles } from '@/hooks/useWeatherPalette';
+
+const CHART_HEIGHT = 120;
+const PADDING = 8;
+
+type Props = {
+  /** Bucketed values for the period on display, oldest first; null leaves a gap. */
+  values: (number | null)[];
+  /** The preceding period, bucketed the same way, drawn dashed underneath. */
+  previous?: (number | null)[];
+  /** Formats a value for the axis labels. */
+  format: (value: number) => string;
+  /** Labels spread evenly below the chart, oldest first. */
+  labels: string[];
+};
+
+/** Builds an SVG path through the values, starting a new segment after each gap. */
+function linePath(values: (number | null)[], x: (index: number) => number, y: (value: number) => number) {
+  let drawing = false;
+  return values
+    .map((value, index) => {
+      if (value === null) {
+        drawing = false;
+        return '';
+      }
+      const command = drawing ? 'L' : 'M';
+      drawing = true;
+      return `${command}${x(index)},${y(value)}`;
+    })
+    .join(' ');
+}
+
+/** Indexes of values with a gap, or the end of the series, on both sides; a path alone would not show them. */
+const isolatedIndexes = (values: (number | null)[]) =>
+  values.flatMap((value, index) =>
+    value !== null && (values[index - 1] ?? null) === null && (values[index + 1] ?? null) === null ? [index] : []
+  );
+
+/** Line chart of one observed quantity over a history window. */
+export function HistoryChart({ values, previous = [], format, labels }: Props) {
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+  const [width, setWidth] = useState(0);
+  const present = [...values, ...previous].filter((value): value is number => value !== null);
+
+  if (present.length === 0) return null;
+
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  const range = Math.max(max - min, 1);
+  const x = (index: number) => (values.length > 1 ? (index / (values.length - 1)) * width : width / 2);
+  const y = (value: number) => PADDING + (1 - (value - min) / range) * (CHART_HEIGHT - 2 * PADDING);
+
+  return (
+    <View>
+      <View style={styles.chart} onLayout={(event) => setWidth(event.nativeEvent.layout.width)}>
+        {width > 0 && (
+          <Svg width={width} height={CHART_HEIGHT}>
+            <Line x1={0} x2={width} y1={y(max)} y2={y(max)} stroke={palette.border} strokeWidth={1} />
+            <Line x1={0} x2={width} y1={y(min)} y2={y(min)} stroke={palette.border} strokeWidth={1} />
+            <Path
+              d={linePath(previous, x, y)}
+              stroke={palette.textMuted}
+              strokeWidth={1.5}
+              strokeDasharray="4 4"
+              fill="none"
+            />
+            {isolatedIndexes(previous).map((index) => (
+              <Circle key={`previous-${index}`} cx={x(index)} cy={y(previous[index]!)} r={2} fill={palette.textMuted} />
+            ))}
+            <Path d={linePath(values, x, y)} stroke={palette.text} strokeWidth={2} fill="none" />
+            {isolatedIndexes(values).map((index) => (
+              <Circle key={index} cx={x(index)} cy={y(values[index]!)} r={3} fill={palette.text} />
+            ))}
+          </Svg>
+        )}
+        <Text style={[styles.axisLabel, styles.maxLabel]}>{format(max)}</Text>
+        <Text style={[styles.axisLabel, styles.minLabel]}>{format(min)}</Text>
+      </View>
+      <View style={styles.labels}>
+        {labels.map((label, index) => (
+          <Text key={index} style={styles.label}>
+            {label}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  chart: {
+    height: CHART_HEIGHT,
+  },
+  axisLabel: {
+    position: 'absolute',
+    left: 0,
+    color: palette.textMuted,
+    fontSize: 10,
+  },
+  maxLabel: {
+    top: 0,
+  },
+  minLabel: {
+    bottom: 0,
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  label: {
+    color: palette.textSecondary,
+    fontSize: 11,
+  },
+});
@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, Path, Rect, Text as SvgText } from 'react-native-svg';
+
+import { ConditionIcon } from '@/components/ConditionIcon';
+import { WeatherPalette } from '@/constants/Colors';
+import { conditionFor } from '@/constants/Weather';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useWeatherPalette, useWeatherStyles } from '@/hooks/useWeatherPalette';
+import { ForecastEntry } from '@/services/weather';
+import { speakPercent, speakTemperature } from '@/utils/spoken';
+import { formatLocationHour } from '@/utils/time';
+import { formatPercent, formatPrecipitation, formatTemperature, formatWindSpeed } from '@/utils/units';
+
+const COLUMN_WIDTH = 56;
+const CHART_HEIGHT = 140;
+/** Space kept above the temperature line for its value labels. */
+const LABEL_SPACE = 22;
+/** Height of the band at the bottom used for rain-chance bars. */
+const BAR_AREA = 44;
+const LINE_AREA = CHART_HEIGHT - BAR_AREA - LABEL_SPACE - 8;
+const HOURS_AHEAD = 48;
+
+type Props = {
+  entries: ForecastEntry[];
+  /** Offset of the forecast location from UTC, in seconds; hours are labelled in its local time. */
+  timezoneOffset: number;
+};
+
+/**
+ * Scrollable strip of the next 48 hours: condition icons, a temperature line and
+ * rain-chance bars per 3-hour step. Tapping a column shows that step's details.
+ */
+export function HourlyForecastChart({ entries, timezoneOffset }: Props) {
+  const { units, timeFormat } = usePreferences();
+  const { t, locale } = useTranslation();
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const hours = useMemo(() => {
+    const now = Date.now() / 1000;
+    const upcoming = entries.filter((entry) => entry.time >= now - 3 * 3600);
+    return upcoming.filter((entry) => entry.time < upcoming[0]?.time + HOURS_AHEAD * 3600);
+  }, [entries]);
+
+  if (hours.length === 0) return null;
+
+  const temperatures = hours.map((entry) => entry.temperature);
+  const minTemp = Math.min(...temperatures);
+  const range = Math.max(Math.max(...temperatures) - minTemp, 1);
+  const width = hours.length * COLUMN_WIDTH;
+
+  const pointX = (index: number) => index * COLUMN_WIDTH + COLUMN_WIDTH / 2;
+  const pointY = (temperature: number) => LABEL_SPACE + (1 - (temperature - minTemp) / range) * LINE_AREA;
+  const linePath = hours
+    .map((entry, index) => `${index === 0 ? 'M' : 'L'}${pointX(index)},${pointY(entry.temperature)}`)
+    .join(' ');
+
+  const activeIndex = Math.min(selectedIndex, hours.length - 1);
+  const selected = hours[activeIndex];
+
+  return (
+    <View>
+      <View style={styles.details}>
+        <Text style={styles.detailsTitle}>
+          {formatLocationHour(selected.time, timezoneOffset, locale, timeFormat)} · {t(conditionFor(selected.condition.id).label)}
+        </Text>
+        <Text style={styles.detailsText}>
+          {formatTemperature(selected.temperature, units.temperature, { decimals: 1, showUnit: true, locale })}
+          {'  ·  '}💧 {formatPercent(selected.precipitationProbability, locale)}{' '}
+          ({formatPrecipitation(selected.precipitation, units.distance, locale)})
+          {'  ·  '}💨 {formatWindSpeed(selected.windSpeed, units.windSpeed, locale)}
+        </Text>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={{ width }}>
+          <View style={styles.row}>
+            {hours.map((entry) => (
+              <ConditionIcon key={entry.time} condition={entry.condition} size={22} style={styles.icon} />
+            ))}
+          </View>
+
+          <Svg width={width} height={CHART_HEIGHT}>
+            <Rect
+              x={activeIndex * COLUMN_WIDTH}
+              y={0}
+              width={COLUMN_WIDTH}
+              height={CHART_HEIGHT}
+              rx={12}
+              fill={palette.surface}
+            />
+            {hours.map((entry, index) => {
+              const barHeight = entry.precipitationProbability * BAR_AREA;
+              return (
+                <Rect
+                  key={`bar-${entry.time}`}
+                  x={pointX(index) - 10}
+                  y={CHART_HEIGHT - barHeight}
+                  width={20}
+                  height={barHeight}
+                  rx={4}
+                  fill={palette.accents.precipitation}
+                />
+              );
+            })}
+            <Path d={linePath} stroke={palette.text} strokeWidth={2} fill="none" />
+            {hours.map((entry, index) => (
+              <React.Fragment key={`point-${entry.time}`}>
+                <Circle cx={pointX(index)} cy={pointY(entry.temperature)} r={3.5} fill={palette.text} />
+                <SvgText
+                  x={pointX(index)}
+                  y={pointY(entry.temperature) - 8}
+                  fontSize={12}
+                  fontWeight="bold"
+                  fill={palette.text}
+                  textAnchor="middle"
+                >
+                  {formatTemperature(entry.temperature, units.temperature, { locale })}
+                </SvgText>
+              </React.Fragment>
+            ))}
+          </Svg>
+
+          <View style={styles.row}>
+            {hours.map((entry) => (
+              <Text key={entry.time} style={styles.hour}>
+                {formatLocationHour(entry.time, timezoneOffset, locale, timeFormat)}
+              </Text>
+            ))}
+          </View>
+
+          <View style={[StyleSheet.absoluteFill, styles.row]}>
+            {hours.map((entry, index) => (
+              <Pressable
+                key={entry.time}
+                style={styles.column}
+                accessibilityRole="button"
+                accessibilityState={{ selected: index === activeIndex }}
+                accessibilityLabel={t('a11y.forecastHour', {
+                  time: formatLocationHour(entry.time, timezoneOffset, locale, timeFormat),
+                  condition: t(conditionFor(entry.condition.id).label),
+                  temperature: speakTemperature(entry.temperature, units.temperature, t, locale),
+                  rain: speakPercent(entry.precipitationProbability, t, locale),
+                })}
+                onPress={() => setSelectedIndex(index)}
+              />
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  details: {
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  detailsTitle: {
+    color: palette.text,
+    fontSize: 14,
+    fontWeight: 'bold',
+    textTransform: 'capitalize',
+  },
+  detailsText: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  icon: {
+    width: COLUMN_WIDTH,
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  hour: {
+    width: COLUMN_WIDTH,
+    color: palette.textSecondary,
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  column: {
+    width: COLUMN_WIDTH,
+  },
+});
@@ -0,0 +1,105 @@
+import { LinearGradient } from 'expo-linear-gradient';
+import { router, Stack } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import { SafeAreaView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { WeatherPage } from '@/components/WeatherPage';
+import { WeatherPalette } from '@/constants/Colors';
+import { useStore } from '@/hooks/useStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useConditionsPalette, WeatherPaletteContext } from '@/hooks/useWeatherPalette';
+import { addFavorite, favoriteIdFor, favoritesStore, removeFavorite } from '@/services/favorites';
+import { CurrentConditions, LocationQuery } from '@/services/weather';
+import { weatherCacheKey } from '@/services/weatherCache';
+
+type Props = {
+  /** Must keep its identity between renders, e.g. memoized from route params. */
+  query: LocationQuery;
+};
+
+/** Full-screen weather for one addressable place, as opened from a deep link. */
+export function LocationWeatherScreen({ query }: Props) {
+  const [conditions, setConditions] = useState<CurrentConditions | null>(null);
+  const { t } = useTranslation();
+  const favorites = useStore(favoritesStore);
+  const favoriteId = conditions ? favoriteIdFor(conditions.coords) : null;
+  const isFavorite = favorites.some((favorite) => favorite.id === favoriteId);
+
+  const palette = useConditionsPalette(conditions);
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const handleToggleFavorite = (current: CurrentConditions) => {
+    if (isFavorite) {
+      removeFavorite(favoriteIdFor(current.coords));
+    } else {
+      addFavorite(current);
+    }
+  };
+
+  // Links can open the app straight onto this screen, with nothing to go back to.
+  const handleBack = () => (router.canGoBack() ? router.back() : router.replace('/'));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <StatusBar barStyle={palette.statusBar} translucent backgroundColor="transparent" />
+
+      <LinearGradient colors={palette.gradient} start={{ x: 0, y: 0 }} end={{ x: 1, y: 1 }} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.back')}
+            onPress={handleBack}
+          >
+            <Text style={styles.backText}>‹</Text>
+          </TouchableOpacity>
+        </View>
+        <WeatherPaletteContext.Provider value={palette}>
+          <View style={styles.page}>
+            <WeatherPage
+              source={query}
+              cacheKey={weatherCacheKey(query)}
+              isFavorite={isFavorite}
+              onToggleFavorite={handleToggleFavorite}
+              onConditionsChange={setConditions}
+            />
+          </View>
+        </WeatherPaletteContext.Provider>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: palette.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backText: {
+    color: palette.text,
+    fontSize: 28,
+    fontWeight: '300',
+    marginTop: -4,
+  },
+  // A row, so the fixed-width page stretches to the full height as it does in the home pager.
+  page: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+});
@@ -0,0 +1,73 @@
+import { BlurView } from 'expo-blur';
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+import { WeatherPalette } from '@/constants/Colors';
+import { useWeatherPalette, useWeatherStyles } from '@/hooks/useWeatherPalette';
+import { Place } from '@/services/weather';
+
+type Props = {
+  suggestions: Place[];
+  loading: boolean;
+  onSelect: (place: Place) => void;
+};
+
+const describeRegion = (place: Place) => [place.region, place.country].filter(Boolean).join(', ');
+
+/** Dropdown of geocoding matches, overlaid just under the search bar. */
+export function PlaceSuggestions({ suggestions, loading, onSelect }: Props) {
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+
+  if (!loading && suggestions.length === 0) return null;
+
+  return (
+    <BlurView intensity={50} tint={palette.blurTint === 'light' ? 'light' : 'dark'} style={styles.container}>
+      {loading && suggestions.length === 0 ? (
+        <ActivityIndicator color={palette.text} style={styles.loading} />
+      ) : (
+        suggestions.map((place) => (
+          <TouchableOpacity
+            key={`${place.lat},${place.lon}`}
+            style={styles.row}
+            onPress={() => onSelect(place)}
+          >
+            <Text style={styles.name}>{place.name}</Text>
+            <Text style={styles.region}>{describeRegion(place)}</Text>
+          </TouchableOpacity>
+        ))
+      )}
+    </BlurView>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: '100%',
+    left: 16,
+    right: 16,
+    marginTop: -8,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  loading: {
+    padding: 16,
+  },
+  row: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: palette.border,
+  },
+  name: {
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  region: {
+    color: palette.textMuted,
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
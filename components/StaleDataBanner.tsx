@@ -0,0 +1,45 @@
+import { BlurView } from 'expo-blur';
+import { StyleSheet, Text } from 'react-native';
+
+import { WeatherPalette } from '@/constants/Colors';
+import { useNow } from '@/hooks/useNow';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useWeatherPalette, useWeatherStyles } from '@/hooks/useWeatherPalette';
+import { formatAge } from '@/utils/time';
+
+type Props = {
+  /** Unix milliseconds at which the displayed data was fetched. */
+  savedAt: number;
+  /** Whether a fresh request is still in flight. */
+  updating?: boolean;
+};
+
+export function StaleDataBanner({ savedAt, updating = false }: Props) {
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+  const now = useNow();
+  const { t } = useTranslation();
+  const age = formatAge(savedAt, now, t);
+
+  return (
+    <BlurView intensity={20} tint={palette.blurTint} style={styles.banner}>
+      <Text style={styles.text}>{t(updating ? 'stale.updating' : 'stale.offline', { age })}</Text>
+    </BlurView>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  banner: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  text: {
+    color: palette.text,
+    fontSize: 13,
+    fontWeight: '500',
+    textAlign: 'center',
+    padding: 10,
+  },
+});
@@ -0,0 +1,99 @@
+import { BlurView } from 'expo-blur';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { WeatherPalette } from '@/constants/Colors';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useWeatherPalette, useWeatherStyles } from '@/hooks/useWeatherPalette';
+import { formatLocationTime } from '@/utils/time';
+import { formatNumber } from '@/utils/units';
+import { UvDay, uvLevelFor } from '@/utils/uv';
+
+type Props = {
+  uv: UvDay;
+  timezoneOffset: number;
+};
+
+/** Estimated UV now, the day's peak and protection window, and guidance for the peak level. */
+export function UvIndexCard({ uv, timezoneOffset }: Props) {
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+  const { t, locale } = useTranslation();
+  const { timeFormat } = usePreferences();
+  const now = uvLevelFor(uv.current);
+  const peak = uvLevelFor(uv.peak.uvIndex);
+  const time = (value: number) => formatLocationTime(value, timezoneOffset, locale, timeFormat);
+  const lines = {
+    now: t('uv.now', { value: formatNumber(uv.current, 0, locale), level: t(now.label) }),
+    peak: t('uv.peak', { value: formatNumber(uv.peak.uvIndex, 0, locale), time: time(uv.peak.time) }),
+    window: uv.protectionWindow
+      ? t('uv.window', { start: time(uv.protectionWindow.start), end: time(uv.protectionWindow.end) })
+      : t('uv.noWindow'),
+    advice: t(peak.advice),
+  };
+
+  return (
+    <BlurView
+      intensity={20}
+      tint={palette.blurTint}
+      style={styles.card}
+      accessible
+      accessibilityLabel={[t('uv.title'), lines.now, lines.peak, lines.window, lines.advice].join(', ')}
+    >
+      <View style={[styles.content, { borderLeftColor: peak.color }]}>
+        <Text style={styles.icon}>☀️</Text>
+        <View style={styles.info}>
+          <Text style={styles.title}>{t('uv.title')}</Text>
+          <Text style={styles.value}>{lines.now}</Text>
+          <Text style={styles.detail}>{lines.peak}</Text>
+          <Text style={styles.detail}>{lines.window}</Text>
+          <Text style={styles.advice}>{lines.advice}</Text>
+        </View>
+      </View>
+    </BlurView>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 16,
+    borderLeftWidth: 4,
+  },
+  icon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  value: {
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  detail: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  advice: {
+    color: palette.text,
+    fontSize: 13,
+    marginTop: 8,
+  },
+});
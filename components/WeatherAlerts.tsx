@@ -0,0 +1,97 @@
+import { BlurView } from 'expo-blur';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { WeatherPalette } from '@/constants/Colors';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useWeatherPalette, useWeatherStyles } from '@/hooks/useWeatherPalette';
+import { AlertKind, describeAlert, describeAlertWindow, WeatherAlert } from '@/utils/alerts';
+
+const ALERT_ICONS: Record<AlertKind, string> = {
+  heavyRain: '🌧️',
+  strongWind: '💨',
+  thunderstorm: '⛈️',
+  extremeHeat: '🔥',
+};
+
+type Props = {
+  alerts: WeatherAlert[];
+  timezoneOffset: number;
+};
+
+/** The location's active threshold alerts, soonest first; renders nothing when there are none. */
+export function WeatherAlerts({ alerts, timezoneOffset }: Props) {
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+  const { units, timeFormat } = usePreferences();
+  const { t, locale } = useTranslation();
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <BlurView intensity={20} tint={palette.blurTint} style={styles.container}>
+      <Text style={styles.title} accessibilityRole="header" accessibilityLabel={t('alerts.title')}>
+        ⚠️ {t('alerts.title')}
+      </Text>
+      {alerts.map((alert) => {
+        const description = describeAlert(alert, t, units, locale);
+        const when = describeAlertWindow(alert, timezoneOffset, t, locale, timeFormat);
+        return (
+          <View
+            key={`${alert.kind}:${alert.start}`}
+            style={styles.row}
+            accessible
+            accessibilityLabel={`${description}, ${when}`}
+          >
+            <Text style={styles.icon}>{ALERT_ICONS[alert.kind]}</Text>
+            <View style={styles.info}>
+              <Text style={styles.description}>{description}</Text>
+              <Text style={styles.window}>{when}</Text>
+            </View>
+          </View>
+        );
+      })}
+    </BlurView>
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 16,
+    overflow: 'hidden',
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: palette.accents.warning,
+  },
+  title: {
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  icon: {
+    fontSize: 22,
+    marginRight: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  description: {
+    color: palette.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  window: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
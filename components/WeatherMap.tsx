@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { StyleSheet } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+
+import { WeatherPalette } from '@/constants/Colors';
+import { useWeatherPalette, useWeatherStyles } from '@/hooks/useWeatherPalette';
+import { Coordinates } from '@/services/weather';
+import { BASE_TILE_URL, WEATHER_LAYERS, WeatherLayer, weatherTileUrl } from '@/services/weather/tiles';
+
+const LEAFLET_URL = 'https://unpkg.com/leaflet@1.9.4/dist';
+const INITIAL_ZOOM = 8;
+
+type Props = {
+  center: Coordinates;
+  layers: WeatherLayer[];
+  onLongPress: (coords: Coordinates) => void;
+};
+
+type MapMessage = { type: 'longPress'; lat: number; lon: number };
+
+/** The whole Leaflet page; the map is driven afterwards through `setLayers`. */
+const buildHtml = (center: Coordinates, layers: WeatherLayer[], background: string) => {
+  const tileUrls = Object.fromEntries(WEATHER_LAYERS.map((layer) => [layer, weatherTileUrl(layer)]));
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no" />
+  <link rel="stylesheet" href="${LEAFLET_URL}/leaflet.css" />
+  <script src="${LEAFLET_URL}/leaflet.js"></script>
+  <style>html, body, #map { margin: 0; height: 100%; background: ${background}; }</style>
+</head>
+<body>
+  <div id="map"></div>
+  <script>
+    var map = L.map('map', { zoomControl: false }).setView([${center.lat}, ${center.lon}], ${INITIAL_ZOOM});
+    L.tileLayer('${BASE_TILE_URL}', { maxZoom: 18, attribution: '&copy; OpenStreetMap contributors' }).addTo(map);
+
+    var tileUrls = ${JSON.stringify(tileUrls)};
+    var overlays = {};
+    Object.keys(tileUrls).forEach(function (key) {
+      overlays[key] = L.tileLayer(tileUrls[key], { maxZoom: 18, opacity: 0.7 });
+    });
+
+    window.setLayers = function (active) {
+      Object.keys(overlays).forEach(function (key) {
+        var shown = map.hasLayer(overlays[key]);
+        if (active.indexOf(key) >= 0 && !shown) overlays[key].addTo(map);
+        if (active.indexOf(key) < 0 && shown) map.removeLayer(overlays[key]);
+      });
+    };
+    window.setLayers(${JSON.stringify(layers)});
+
+    var pin = null;
+    // Leaflet reports a long press on touch screens as a contextmenu event.
+    map.on('contextmenu', function (event) {
+      var point = event.latlng.wrap();
+      if (pin) pin.setLatLng(point);
+      else pin = L.circleMarker(point, { radius: 9, color: '#fff', weight: 3, fillColor: '#FF6B6B', fillOpacity: 1 }).addTo(map);
+      window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'longPress', lat: point.lat, lon: point.lng }));
+    });
+  </script>
+</body>
+</html>`;
+};
+
+/** A Leaflet map in a WebView, with OpenWeather overlays and long-press to pick a point. */
+export function WeatherMap({ center, layers, onLongPress }: Props) {
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+  const webViewRef = useRef<WebView>(null);
+  const background = palette.gradient[0];
+  // Built once: later layer and theme changes are applied in place so the map keeps its position.
+  const initial = useRef({ center, layers, background }).current;
+  const html = useMemo(() => buildHtml(initial.center, initial.layers, initial.background), [initial]);
+
+  useEffect(() => {
+    webViewRef.current?.injectJavaScript(`window.setLayers && window.setLayers(${JSON.stringify(layers)}); true;`);
+  }, [layers]);
+
+  useEffect(() => {
+    webViewRef.current?.injectJavaScript(
+      `document.getElementById('map').style.background = ${JSON.stringify(background)}; true;`
+    );
+  }, [background]);
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    const message = JSON.parse(event.nativeEvent.data) as MapMessage;
+    if (message.type === 'longPress') onLongPress({ lat: message.lat, lon: message.lon });
+  };
+
+  return (
+    <WebView
+      ref={webViewRef}
+      source={{ html }}
+      originWhitelist={['*']}
+      onMessage={handleMessage}
+      style={styles.map}
+    />
+  );
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  map: {
+    flex: 1,
+    backgroundColor: palette.gradient[0],
+  },
+});
@@ -0,0 +1,726 @@
+import { BlurView } from 'expo-blur';
+import { router } from 'expo-router';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ActivityIndicator, Animated, Dimensions, FlatList, RefreshControl, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { AirQualityCard } from '@/components/AirQualityCard';
+import { ConditionIcon } from '@/components/ConditionIcon';
+import { HourlyForecastChart } from '@/components/HourlyForecastChart';
+import { StaleDataBanner } from '@/components/StaleDataBanner';
+import { UvIndexCard } from '@/components/UvIndexCard';
+import { WeatherAlerts } from '@/components/WeatherAlerts';
+import { WeatherPalette } from '@/constants/Colors';
+import { conditionFor } from '@/constants/Weather';
+import { useAirQuality } from '@/hooks/useAirQuality';
+import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { useNow } from '@/hooks/useNow';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useReduceMotion } from '@/hooks/useReduceMotion';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useWeather, WeatherSource } from '@/hooks/useWeather';
+import { useWeatherPalette, useWeatherStyles } from '@/hooks/useWeatherPalette';
+import { TranslationKey, translateConditionGroup } from '@/i18n';
+import { notifyNewAlerts } from '@/services/alerts';
+import { WeatherCard } from '@/services/preferences';
+import { CurrentConditions, WeatherErrorKind } from '@/services/weather';
+import { describeAlert, describeAlertWindow, evaluateAlerts } from '@/utils/alerts';
+import { aggregateDailyForecast } from '@/utils/forecast';
+import { locationUrl } from '@/utils/links';
+import { speakDistance, speakPercent, speakPressure, speakTemperature, speakWindSpeed } from '@/utils/spoken';
+import { formatAge, formatLocationTime, formatWeekday } from '@/utils/time';
+import {
+  formatDistance,
+  formatPercent,
+  formatPrecipitation,
+  formatPressure,
+  formatTemperature,
+  formatWindSpeed,
+} from '@/utils/units';
+import { estimateUvDay } from '@/utils/uv';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+const FORECAST_DAYS = 5;
+
+const ERROR_MESSAGES: Record<WeatherErrorKind, TranslationKey> = {
+  invalidKey: 'errors.invalidKey',
+  rateLimited: 'errors.rateLimited',
+  budget: 'errors.rateLimited',
+  offline: 'errors.offline',
+  timeout: 'errors.timeout',
+  server: 'errors.server',
+  notFound: 'errors.notFound',
+  location: 'errors.location',
+  unknown: 'errors.unknown',
+};
+
+type Props = {
+  source: WeatherSource;
+  cacheKey: string;
+  /** Informational message shown above the hero, e.g. why GPS was not used. */
+  notice?: string | null;
+  isFavorite?: boolean;
+  onToggleFavorite?: (current: CurrentConditions) => void;
+  /** Reports the conditions on display so the screen can match its background. */
+  onConditionsChange?: (current: CurrentConditions | null) => void;
+};
+
+/** One swipeable page of the home screen: the full weather view for a single place. */
+export function WeatherPage({ source, cacheKey, notice, isFavorite = false, onToggleFavorite, onConditionsChange }: Props) {
+  const { report, cachedAt, updatedAt, loading, refreshing, error, refresh, retry } = useWeather(source, cacheKey);
+  const { units, alertThresholds, alertNotifications, timeFormat, hiddenCards, refreshIntervalMinutes } = usePreferences();
+  const shows = (card: WeatherCard) => !hiddenCards.includes(card);
+  const { t, locale } = useTranslation();
+  const palette = useWeatherPalette();
+  const styles = useWeatherStyles(createStyles);
+  const now = useNow();
+  const weatherData = report?.current ?? null;
+  const airQuality = useAirQuality(weatherData?.coords ?? null);
+  const forecastData = useMemo(
+    () => (report ? aggregateDailyForecast(report.forecast).slice(0, FORECAST_DAYS) : null),
+    [report]
+  );
+  const uv = useMemo(
+    () => (report ? estimateUvDay(report.current, report.forecast, now / 1000) : null),
+    [report, now]
+  );
+  const alerts = useMemo(
+    () => (report ? evaluateAlerts(report.forecast, alertThresholds, now / 1000) : []),
+    [report, alertThresholds, now]
+  );
+
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(50)).current;
+  const scaleAnim = useRef(new Animated.Value(0.8)).current;
+  const reduceMotion = useReduceMotion();
+
+  const onConditionsChangeRef = useRef(onConditionsChange);
+  onConditionsChangeRef.current = onConditionsChange;
+
+  useEffect(() => {
+    onConditionsChangeRef.current?.(weatherData);
+  }, [weatherData]);
+
+  useEffect(() => {
+    if (!report || !alertNotifications || alerts.length === 0) return;
+    const { locationName } = report.current;
+    const { timezoneOffset } = report.forecast;
+    notifyNewAlerts(cacheKey, alerts, (alert) => ({
+      title: `⚠️ ${locationName}`,
+      body: `${describeAlert(alert, t, units, locale)} · ${describeAlertWindow(alert, timezoneOffset, t, locale, timeFormat)}`,
+    }));
+  }, [report, alerts, alertNotifications, cacheKey, t, units, locale, timeFormat]);
+
+  useAutoRefresh(refresh, updatedAt, refreshIntervalMinutes);
+
+  useEffect(() => {
+    if (!report) return;
+    if (reduceMotion) {
+      fadeAnim.setValue(1);
+      slideAnim.setValue(0);
+      scaleAnim.setValue(1);
+      return;
+    }
+    Animated.parallel([
+      Animated.timing(fadeAnim, {
+        toValue: 1,
+        duration: 800,
+        useNativeDriver: true,
+      }),
+      Animated.timing(slideAnim, {
+        toValue: 0,
+        duration: 800,
+        useNativeDriver: true,
+      }),
+      Animated.timing(scaleAnim, {
+        toValue: 1,
+        duration: 800,
+        useNativeDriver: true,
+      }),
+    ]).start();
+  }, [report, reduceMotion, fadeAnim, slideAnim, scaleAnim]);
+
+  const handleShare = (current: CurrentConditions) => {
+    const url = locationUrl({ ...current.coords, name: current.locationName });
+    Share.share({ message: t('share.message', { location: current.locationName, url }) }).catch(() => {});
+  };
+
+  const onRefresh = () => {
+    if (!reduceMotion) {
+      fadeAnim.setValue(0);
+      slideAnim.setValue(50);
+      scaleAnim.setValue(0.8);
+    }
+    refresh();
+  };
+
+  const renderWeatherCards = () => {
+    if (!weatherData) return null;
+
+    const cards: { id: WeatherCard; title: string; value: string; spoken: string; icon: string; color: string }[] = [
+      {
+        id: 'feelsLike',
+        title: t('cards.feelsLike'),
+        value: formatTemperature(weatherData.feelsLike, units.temperature, { decimals: 1, showUnit: true, locale }),
+        spoken: speakTemperature(weatherData.feelsLike, units.temperature, t, locale, 1),
+        icon: '🌡️',
+        color: palette.accents.feelsLike,
+      },
+      {
+        id: 'humidity',
+        title: t('cards.humidity'),
+        value: formatPercent(weatherData.humidity / 100, locale),
+        spoken: speakPercent(weatherData.humidity / 100, t, locale),
+        icon: '💧',
+        color: palette.accents.humidity,
+      },
+      {
+        id: 'windSpeed',
+        title: t('cards.windSpeed'),
+        value: formatWindSpeed(weatherData.windSpeed, units.windSpeed, locale),
+        spoken: speakWindSpeed(weatherData.windSpeed, units.windSpeed, t, locale),
+        icon: '💨',
+        color: palette.accents.windSpeed,
+      },
+      {
+        id: 'pressure',
+        title: t('cards.pressure'),
+        value: formatPressure(weatherData.pressure, units.pressure, locale),
+        spoken: speakPressure(weatherData.pressure, units.pressure, t, locale),
+        icon: '📊',
+        color: palette.accents.pressure,
+      },
+      {
+        id: 'visibility',
+        title: t('cards.visibility'),
+        value: formatDistance(weatherData.visibility, units.distance, locale),
+        spoken: speakDistance(weatherData.visibility, units.distance, t, locale),
+        icon: '👁️',
+        color: palette.accents.visibility,
+      },
+      {
+        id: 'sunrise',
+        title: t('cards.sunrise'),
+        value: formatLocationTime(weatherData.sunrise, weatherData.timezoneOffset, locale, timeFormat),
+        spoken: formatLocationTime(weatherData.sunrise, weatherData.timezoneOffset, locale, timeFormat),
+        icon: '🌅',
+        color: palette.accents.sunrise,
+      }
+    ];
+
+    return (
+      <View style={styles.cardsContainer}>
+        {cards.filter((card) => shows(card.id)).map((card, index) => (
+          <Animated.View
+            key={card.title}
+            accessible
+            accessibilityLabel={`${card.title} ${card.spoken}`}
+            style={[
+              styles.weatherCard,
+              {
+                opacity: fadeAnim,
+                transform: [
+                  {
+                    translateY: slideAnim.interpolate({
+                      inputRange: [0, 50],
+                      outputRange: [0, 50],
+                    }),
+                  },
+                ],
+              },
+            ]}
+          >
+            <BlurView intensity={20} tint={palette.blurTint} style={styles.cardBlur}>
+              <View style={[styles.cardContent, { borderLeftColor: card.color }]}>
+                <Text style={styles.cardIcon}>{card.icon}</Text>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle}>{card.title}</Text>
+                  <Text style={styles.cardValue}>{card.value}</Text>
+                </View>
+              </View>
+            </BlurView>
+          </Animated.View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading && cachedAt === null) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={palette.text} />
+          <Text style={styles.loadingText}>{t('weather.loading')}</Text>
+        </View>
+      );
+    }
+    
+    if (error && !weatherData) {
+      return (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorIcon}>😔</Text>
+          <Text style={styles.errorText}>{t(ERROR_MESSAGES[error.kind])}</Text>
+          <TouchableOpacity style={styles.retryButton} accessibilityRole="button" onPress={retry}>
+            <Text style={styles.retryText}>{t('errors.retry')}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    
+    if (weatherData) {
+      return (
+        <ScrollView 
+          contentContainerStyle={styles.weatherContainer}
+          refreshControl={
+            <RefreshControl 
+              refreshing={refreshing} 
+              onRefresh={onRefresh} 
+              tintColor={palette.text}
+              colors={[palette.text]}
+            />
+          }
+        >
+          {notice && (
+            <BlurView intensity={20} tint={palette.blurTint} style={styles.errorBanner}>
+              <Text style={styles.errorBannerText}>{notice}</Text>
+            </BlurView>
+          )}
+
+          {cachedAt !== null && <StaleDataBanner savedAt={cachedAt} updating={loading} />}
+
+          {error && (
+            <BlurView intensity={20} tint={palette.blurTint} style={styles.errorBanner}>
+              <Text style={styles.errorBannerText}>{t(ERROR_MESSAGES[error.kind])}</Text>
+            </BlurView>
+          )}
+          
+
+          <Animated.View 
+            style={[
+              styles.mainWeatherContainer,
+              {
+                opacity: fadeAnim,
+                transform: [
+                  { translateY: slideAnim },
+                  { scale: scaleAnim }
+                ],
+              },
+            ]}
+          >
+            <View style={styles.cityRow}>
+              <Text style={styles.cityName} accessibilityRole="header">
+                {weatherData.locationName}
+              </Text>
+              {onToggleFavorite && (
+                <TouchableOpacity
+                  style={styles.favoriteButton}
+                  accessibilityRole="button"
+                  accessibilityLabel={t(isFavorite ? 'a11y.removeFavorite' : 'a11y.addFavorite')}
+                  onPress={() => onToggleFavorite(weatherData)}
+                >
+                  <Text style={styles.favoriteIcon}>{isFavorite ? '★' : '☆'}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.favoriteButton}
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.share')}
+                onPress={() => handleShare(weatherData)}
+              >
+                <Text style={styles.shareIcon}>🔗</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.favoriteButton}
+                accessibilityRole="button"
+                accessibilityLabel={t('history.title')}
+                onPress={() =>
+                  router.push({
+                    pathname: '/history',
+                    params: {
+                      lat: String(weatherData.coords.lat),
+                      lon: String(weatherData.coords.lon),
+                      name: weatherData.locationName,
+                    },
+                  })
+                }
+              >
+                <Text style={styles.shareIcon}>📈</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.localTime}>
+              {t('weather.localTime', { time: formatLocationTime(now / 1000, weatherData.timezoneOffset, locale, timeFormat) })}
+            </Text>
+            {updatedAt !== null && cachedAt === null && (
+              <Text style={styles.updated}>{t('weather.updated', { age: formatAge(updatedAt, now, t) })}</Text>
+            )}
+            <View
+              style={styles.hero}
+              accessible
+              accessibilityLabel={t('a11y.currentConditions', {
+                temperature: speakTemperature(weatherData.temperature, units.temperature, t, locale, 1),
+                condition: t(conditionFor(weatherData.condition.id).label),
+              })}
+            >
+              <ConditionIcon condition={weatherData.condition} size={96} style={styles.weatherIcon} />
+              <Text style={styles.temperature} maxFontSizeMultiplier={1.5}>
+                {formatTemperature(weatherData.temperature, units.temperature, { decimals: 1, locale })}
+              </Text>
+              <Text style={styles.description}>
+                {t(conditionFor(weatherData.condition.id).label)}
+              </Text>
+            </View>
+          </Animated.View>
+
+          <WeatherAlerts alerts={alerts} timezoneOffset={report?.forecast.timezoneOffset ?? 0} />
+
+          {shows('airQuality') && airQuality && (
+            <AirQualityCard airQuality={airQuality} timezoneOffset={weatherData.timezoneOffset} />
+          )}
+
+          {shows('uvIndex') && uv && <UvIndexCard uv={uv} timezoneOffset={weatherData.timezoneOffset} />}
+
+          {renderWeatherCards()}
+
+          {shows('hourly') && (
+            <Animated.View 
+              style={[
+                styles.forecastSection,
+                {
+                  opacity: fadeAnim,
+                  transform: [{ translateY: slideAnim }],
+                },
+              ]}
+            >
+              <BlurView intensity={20} tint={palette.blurTint} style={styles.forecastBlur}>
+                <Text style={styles.forecastTitle} accessibilityRole="header">{t('forecast.hourly')}</Text>
+                <HourlyForecastChart
+                  entries={report?.forecast.entries ?? []}
+                  timezoneOffset={report?.forecast.timezoneOffset ?? 0}
+                />
+              </BlurView>
+            </Animated.View>
+          )}
+
+          {shows('daily') && (
+            <Animated.View 
+              style={[
+                styles.forecastSection,
+                {
+                  opacity: fadeAnim,
+                  transform: [{ translateY: slideAnim }],
+                },
+              ]}
+            >
+              <BlurView intensity={20} tint={palette.blurTint} style={styles.forecastBlur}>
+                <Text style={styles.forecastTitle} accessibilityRole="header">{t('forecast.daily')}</Text>
+                <FlatList
+                  data={forecastData}
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  keyExtractor={(item) => item.date}
+                  contentContainerStyle={styles.forecastList}
+                  renderItem={({ item, index }) => (
+                    <Animated.View
+                      accessible
+                      accessibilityLabel={t('a11y.forecastDay', {
+                        day: formatWeekday(item.date, locale, 'long'),
+                        condition: t(conditionFor(item.condition.id).label),
+                        high: speakTemperature(item.tempMax, units.temperature, t, locale),
+                        low: speakTemperature(item.tempMin, units.temperature, t, locale),
+                        rain: speakPercent(item.precipitationProbability, t, locale),
+                      })}
+                      style={[
+                        styles.forecastItem,
+                        {
+                          opacity: fadeAnim,
+                          transform: [
+                            {
+                              translateY: slideAnim.interpolate({
+                                inputRange: [0, 50],
+                                outputRange: [0, 20 + index * 10],
+                              }),
+                            },
+                          ],
+                        },
+                      ]}
+                    >
+                      <Text style={styles.forecastDay}>
+                        {formatWeekday(item.date, locale)}
+                      </Text>
+                      <ConditionIcon condition={item.condition} size={32} night={false} style={styles.forecastIcon} />
+                      <Text style={styles.forecastTemp}>
+                        {formatTemperature(item.tempMax, units.temperature, { locale })}
+                      </Text>
+                      <Text style={styles.forecastLow}>
+                        {formatTemperature(item.tempMin, units.temperature, { locale })}
+                      </Text>
+                      <Text style={styles.forecastDesc}>
+                        {translateConditionGroup(t, item.condition.main)}
+                      </Text>
+                      <Text style={styles.forecastRain}>
+                        💧 {formatPercent(item.precipitationProbability, locale)}
+                      </Text>
+                      <Text style={styles.forecastRainAmount}>
+                        {formatPrecipitation(item.precipitation, units.distance, locale)}
+                      </Text>
+                    </Animated.View>
+                  )}
+                />
+              </BlurView>
+            </Animated.View>
+          )}
+        </ScrollView>
+      );
+    }
+    return null;
+  };
+
+  return <View style={styles.page}>{renderContent()}</View>;
+}
+
+const createStyles = (palette: WeatherPalette) => StyleSheet.create({
+  page: {
+    width: screenWidth,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: palette.text,
+    fontSize: 16,
+    marginTop: 16,
+    fontWeight: '500',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorIcon: {
+    fontSize: 60,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: palette.text,
+    fontSize: 18,
+    textAlign: 'center',
+    fontWeight: '500',
+    backgroundColor: palette.surface,
+    padding: 16,
+    borderRadius: 12,
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: palette.surfaceSelected,
+    borderWidth: 1,
+    borderColor: palette.border,
+  },
+  retryText: {
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorBanner: {
+    margin: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  errorBannerText: {
+    color: palette.text,
+    fontSize: 14,
+    textAlign: 'center',
+    padding: 12,
+  },
+  weatherContainer: {
+    paddingBottom: 30,
+  },
+  mainWeatherContainer: {
+    alignItems: 'center',
+    paddingVertical: 30,
+  },
+  cityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  cityName: {
+    flexShrink: 1,
+    fontSize: 30,
+    fontWeight: '300',
+    color: palette.text,
+    textAlign: 'center',
+    textShadowColor: palette.textShadow,
+    textShadowOffset: { width: 0, height: 2 },
+    textShadowRadius: 4,
+  },
+  localTime: {
+    fontSize: 14,
+    color: palette.textSecondary,
+    fontWeight: '500',
+    marginTop: -8,
+  },
+  updated: {
+    fontSize: 12,
+    color: palette.textMuted,
+    marginTop: 2,
+  },
+  favoriteButton: {
+    marginLeft: 12,
+    padding: 4,
+  },
+  favoriteIcon: {
+    fontSize: 28,
+    color: palette.accents.favorite,
+  },
+  shareIcon: {
+    fontSize: 22,
+  },
+  hero: {
+    alignItems: 'center',
+  },
+  weatherIcon: {
+    marginVertical: 20,
+  },
+  temperature: {
+    fontSize: 68,
+    fontWeight: '100',
+    color: palette.text,
+    textShadowColor: palette.textShadow,
+    textShadowOffset: { width: 0, height: 2 },
+    textShadowRadius: 4,
+  },
+  description: {
+    fontSize: 18,
+    textTransform: 'capitalize',
+    color: palette.textSecondary,
+    fontWeight: '500',
+    marginTop: 8,
+  },
+  cardsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    marginVertical: 20,
+  },
+  weatherCard: {
+    width: '48%',
+    marginBottom: 12,
+    borderRadius: 16,
+    overflow: 'hidden',
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+  cardBlur: {
+    flex: 1,
+  },
+  cardContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderLeftWidth: 4,
+  },
+  cardIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  cardValue: {
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  forecastSection: {
+    margin: 16,
+    borderRadius: 20,
+    overflow: 'hidden',
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  forecastBlur: {
+    padding: 20,
+  },
+  forecastTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 20,
+    color: palette.text,
+  },
+  forecastList: {
+    paddingHorizontal: 10,
+  },
+  forecastItem: {
+    alignItems: 'center',
+    backgroundColor: palette.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 6,
+    minWidth: 80,
+    borderWidth: 1,
+    borderColor: palette.border,
+  },
+  forecastDay: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: palette.text,
+    marginBottom: 8,
+  },
+  forecastIcon: {
+    marginVertical: 8,
+  },
+  forecastTemp: {
+    fontSize: 18,
+    color: palette.text,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  forecastLow: {
+    fontSize: 14,
+    color: palette.textMuted,
+    marginBottom: 4,
+  },
+  forecastDesc: {
+    fontSize: 10,
+    color: palette.textSecondary,
+    textAlign: 'center',
+    textTransform: 'capitalize',
+  },
+  forecastRain: {
+    fontSize: 12,
+    color: palette.text,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  forecastRainAmount: {
+    fontSize: 10,
+    color: palette.textSecondary,
+  },
+});
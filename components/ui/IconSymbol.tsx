@@ -6,7 +6,7 @@ import { ComponentProps } from 'react';
 import { OpaqueColorValue, type StyleProp, type TextStyle } from 'react-native';
 
 type IconMapping = Record<SymbolViewProps['name'], ComponentProps<typeof MaterialIcons>['name']>;
-type IconSymbolName = keyof typeof MAPPING;
+export type IconSymbolName = keyof typeof MAPPING;
 
 /**
  * Add your SF Symbols to Material Icons mappings here.
@@ -18,6 +18,30 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'chart.bar.fill': 'bar-chart',
+  'sun.max.fill': 'wb-sunny',
+  'moon.stars.fill': 'nights-stay',
+  'cloud.sun.fill': 'filter-drama',
+  'cloud.moon.fill': 'bedtime',
+  'cloud.fill': 'cloud',
+  'cloud.drizzle.fill': 'grain',
+  'cloud.rain.fill': 'umbrella',
+  'cloud.sun.rain.fill': 'umbrella',
+  'cloud.moon.rain.fill': 'umbrella',
+  'cloud.heavyrain.fill': 'umbrella',
+  'cloud.sleet.fill': 'snowing',
+  'cloud.bolt.fill': 'flash-on',
+  'cloud.bolt.rain.fill': 'thunderstorm',
+  'cloud.snow.fill': 'cloudy-snowing',
+  snowflake: 'ac-unit',
+  'cloud.fog.fill': 'foggy',
+  'sun.haze.fill': 'dehaze',
+  'moon.haze.fill': 'dehaze',
+  'sun.dust.fill': 'grain',
+  'moon.dust.fill': 'grain',
+  'smoke.fill': 'blur-on',
+  wind: 'air',
+  tornado: 'tornado',
 } as IconMapping;
 
 /**
@@ -24,3 +24,208 @@ export const Colors = {
     tabIconSelected: tintColorDark,
   },
 };
+
+export type ThemeName = 'light' | 'dark' | 'highContrast';
+
+/** Accent colors that tell the weather cards apart, plus a few that mean something. */
+export interface WeatherAccents {
+  feelsLike: string;
+  humidity: string;
+  windSpeed: string;
+  pressure: string;
+  visibility: string;
+  sunrise: string;
+  favorite: string;
+  warning: string;
+  precipitation: string;
+}
+
+/** Semantic colors for everything drawn over a weather backdrop. */
+export interface WeatherPalette {
+  /** The backdrop, from the top-left corner to the bottom-right. */
+  gradient: [string, string, ...string[]];
+  statusBar: 'light-content' | 'dark-content';
+  /** Tint for the frosted-glass surfaces. */
+  blurTint: 'default' | 'light' | 'dark';
+  text: string;
+  textSecondary: string;
+  textMuted: string;
+  textShadow: string;
+  /** Fill for cards, inputs and buttons. */
+  surface: string;
+  /** Fill for selected or emphasized controls. */
+  surfaceSelected: string;
+  border: string;
+  accents: WeatherAccents;
+}
+
+type Foreground = Omit<WeatherPalette, 'gradient'>;
+
+const ON_DARK: Foreground = {
+  statusBar: 'light-content',
+  blurTint: 'default',
+  text: '#fff',
+  textSecondary: 'rgba(255,255,255,0.8)',
+  textMuted: 'rgba(255,255,255,0.65)',
+  textShadow: 'rgba(0,0,0,0.3)',
+  surface: 'rgba(255,255,255,0.15)',
+  surfaceSelected: 'rgba(255,255,255,0.4)',
+  border: 'rgba(255,255,255,0.2)',
+  accents: {
+    feelsLike: '#FF6B6B',
+    humidity: '#4ECDC4',
+    windSpeed: '#45B7D1',
+    pressure: '#96CEB4',
+    visibility: '#FFEAA7',
+    sunrise: '#FD79A8',
+    favorite: '#FFD93D',
+    warning: '#FF6B6B',
+    precipitation: 'rgba(120,190,255,0.75)',
+  },
+};
+
+// Pale backdrops such as snow and mist need dark text and deeper accents.
+const ON_LIGHT: Foreground = {
+  statusBar: 'dark-content',
+  blurTint: 'light',
+  text: '#1B2631',
+  textSecondary: 'rgba(27,38,49,0.8)',
+  textMuted: 'rgba(27,38,49,0.65)',
+  textShadow: 'rgba(255,255,255,0.4)',
+  surface: 'rgba(255,255,255,0.45)',
+  surfaceSelected: 'rgba(27,38,49,0.2)',
+  border: 'rgba(27,38,49,0.15)',
+  accents: {
+    feelsLike: '#C0392B',
+    humidity: '#117A65',
+    windSpeed: '#1F618D',
+    pressure: '#1E8449',
+    visibility: '#9A7D0A',
+    sunrise: '#AD1457',
+    favorite: '#B9770E',
+    warning: '#C0392B',
+    precipitation: 'rgba(31,97,141,0.7)',
+  },
+};
+
+const ON_DARK_THEME: Foreground = { ...ON_DARK, blurTint: 'dark' };
+
+const HIGH_CONTRAST: Foreground = {
+  statusBar: 'light-content',
+  blurTint: 'dark',
+  text: '#FFFFFF',
+  textSecondary: '#FFFFFF',
+  textMuted: '#E6E6E6',
+  textShadow: 'transparent',
+  surface: 'rgba(0,0,0,0.85)',
+  surfaceSelected: 'rgba(255,255,255,0.35)',
+  border: '#FFFFFF',
+  accents: {
+    feelsLike: '#FF8A80',
+    humidity: '#64FFDA',
+    windSpeed: '#80D8FF',
+    pressure: '#B9F6CA',
+    visibility: '#FFFF8D',
+    sunrise: '#FF80AB',
+    favorite: '#FFFF00',
+    warning: '#FF5252',
+    precipitation: '#40C4FF',
+  },
+};
+
+/** Backdrops for the weather screen; `conditionFor` in `constants/Weather` picks one per condition. */
+export type Backdrop = 'Clear' | 'Clouds' | 'Rain' | 'Drizzle' | 'Thunderstorm' | 'Snow' | 'Mist' | 'Dust';
+
+type Gradient = { colors: [string, string, ...string[]]; foreground: Foreground };
+type BackdropGradients = Record<Backdrop, { day: Gradient; night: Gradient }>;
+
+const onDark = (...colors: [string, string, ...string[]]): Gradient => ({ colors, foreground: ON_DARK });
+const onLight = (...colors: [string, string, ...string[]]): Gradient => ({ colors, foreground: ON_LIGHT });
+const onDarkTheme = (...colors: [string, string, ...string[]]): Gradient => ({ colors, foreground: ON_DARK_THEME });
+
+const LIGHT_GRADIENTS: BackdropGradients = {
+  Clear: {
+    day: onDark('#FF9A8B', '#A8E6CF', '#FFD3A5', '#FD9853'),
+    night: onDark('#2C3E50', '#4A6741', '#34495E', '#2980B9'),
+  },
+  Clouds: {
+    day: onDark('#BDC3C7', '#2C3E50', '#95A5A6', '#34495E'),
+    night: onDark('#34495E', '#2C3E50', '#7F8C8D', '#2980B9'),
+  },
+  Rain: {
+    day: onDark('#3A7BD5', '#00D2FF', '#667db6', '#0082c8'),
+    night: onDark('#2980B9', '#6BB6FF', '#1B4F72', '#2E86AB'),
+  },
+  Drizzle: {
+    day: onLight('#A8E6CF', '#DCEDC1', '#B2DFDB', '#80CBC4'),
+    night: onDark('#34495E', '#2C3E50', '#5DADE2', '#3498DB'),
+  },
+  Thunderstorm: {
+    day: onDark('#654EA3', '#EAAFC8', '#8E44AD', '#C39BD3'),
+    night: onDark('#2C3E50', '#8E44AD', '#34495E', '#7D3C98'),
+  },
+  Snow: {
+    day: onLight('#E6E6FA', '#FAFAFA', '#D6EAF8', '#EBF5FB'),
+    night: onLight('#5DADE2', '#85C1E9', '#AED6F1', '#D6EAF8'),
+  },
+  Mist: {
+    day: onLight('#D5D4D0', '#D5D4D0', '#EEEEEE', '#EFEEEE'),
+    night: onLight('#7F8C8D', '#BDC3C7', '#95A5A6', '#AEB6BF'),
+  },
+  Dust: {
+    day: onLight('#E8D3A9', '#D7B98E', '#E3C9A0', '#C9A66B'),
+    night: onDark('#5D4E37', '#4A3F2F', '#6B5B45', '#3B3226'),
+  },
+};
+
+const DARK_GRADIENTS: BackdropGradients = {
+  Clear: {
+    day: onDarkTheme('#1E3C72', '#2A5298', '#274060', '#1B2838'),
+    night: onDarkTheme('#0F2027', '#203A43', '#2C5364', '#0B1A2A'),
+  },
+  Clouds: {
+    day: onDarkTheme('#2C3E50', '#3D4F5F', '#4B5A68', '#1F2A36'),
+    night: onDarkTheme('#141E30', '#243B55', '#1F2A36', '#111820'),
+  },
+  Rain: {
+    day: onDarkTheme('#1B4F72', '#21618C', '#1A3A5C', '#0E2A47'),
+    night: onDarkTheme('#0B1D33', '#15314F', '#0E2A47', '#081423'),
+  },
+  Drizzle: {
+    day: onDarkTheme('#1F4E5F', '#2E6B74', '#24505B', '#16363F'),
+    night: onDarkTheme('#10262E', '#1A3A44', '#122C34', '#0A1A1F'),
+  },
+  Thunderstorm: {
+    day: onDarkTheme('#2E1A47', '#4A2C6B', '#3B2358', '#1E1030'),
+    night: onDarkTheme('#1A0F2B', '#2E1A47', '#231538', '#0F0819'),
+  },
+  Snow: {
+    day: onDarkTheme('#34495E', '#4A6078', '#3E5369', '#2A3B4C'),
+    night: onDarkTheme('#1C2833', '#2C3E50', '#243342', '#141D26'),
+  },
+  Mist: {
+    day: onDarkTheme('#3A3F44', '#4A5056', '#42474D', '#2E3236'),
+    night: onDarkTheme('#232629', '#2E3236', '#282B2F', '#1B1D20'),
+  },
+  Dust: {
+    day: onDarkTheme('#4A3F2F', '#5D4E37', '#54462F', '#3B3226'),
+    night: onDarkTheme('#2B241A', '#3B3226', '#332B20', '#1F1A13'),
+  },
+};
+
+// High contrast drops the condition colors altogether for a plain black backdrop.
+const HIGH_CONTRAST_GRADIENT: Gradient = { colors: ['#000000', '#000000'], foreground: HIGH_CONTRAST };
+
+const GRADIENTS: Record<Exclude<ThemeName, 'highContrast'>, BackdropGradients> = {
+  light: LIGHT_GRADIENTS,
+  dark: DARK_GRADIENTS,
+};
+
+/** A backdrop's gradient in the given theme, and the colors that read well on it. */
+export function weatherPalette(theme: ThemeName, backdrop: Backdrop, isNight: boolean): WeatherPalette {
+  if (theme === 'highContrast') {
+    return { ...HIGH_CONTRAST_GRADIENT.foreground, gradient: HIGH_CONTRAST_GRADIENT.colors };
+  }
+  const { colors, foreground } = GRADIENTS[theme][backdrop][isNight ? 'night' : 'day'];
+  return { ...foreground, gradient: colors };
+}
@@ -0,0 +1,37 @@
+import { Language } from '@/i18n';
+
+export interface District {
+  id: string;
+  names: Record<Language, string>;
+  lat: number;
+  lon: number;
+}
+
+/** The 25 administrative districts of Sri Lanka, located at their capital towns. */
+export const DISTRICTS: District[] = [
+  { id: 'colombo', names: { en: 'Colombo', si: 'කොළඹ', ta: 'கொழும்பு' }, lat: 6.9271, lon: 79.8612 },
+  { id: 'gampaha', names: { en: 'Gampaha', si: 'ගම්පහ', ta: 'கம்பஹா' }, lat: 7.0873, lon: 80.0144 },
+  { id: 'kalutara', names: { en: 'Kalutara', si: 'කළුතර', ta: 'களுத்துறை' }, lat: 6.5854, lon: 79.9607 },
+  { id: 'kandy', names: { en: 'Kandy', si: 'මහනුවර', ta: 'கண்டி' }, lat: 7.2906, lon: 80.6337 },
+  { id: 'matale', names: { en: 'Matale', si: 'මාතලේ', ta: 'மாத்தளை' }, lat: 7.4675, lon: 80.6234 },
+  { id: 'nuwara-eliya', names: { en: 'Nuwara Eliya', si: 'නුවරඑළිය', ta: 'நுவரெலியா' }, lat: 6.9497, lon: 80.7891 },
+  { id: 'galle', names: { en: 'Galle', si: 'ගාල්ල', ta: 'காலி' }, lat: 6.0535, lon: 80.221 },
+  { id: 'matara', names: { en: 'Matara', si: 'මාතර', ta: 'மாத்தறை' }, lat: 5.9549, lon: 80.555 },
+  { id: 'hambantota', names: { en: 'Hambantota', si: 'හම්බන්තොට', ta: 'அம்பாந்தோட்டை' }, lat: 6.1241, lon: 81.1185 },
+  { id: 'jaffna', names: { en: 'Jaffna', si: 'යාපනය', ta: 'யாழ்ப்பாணம்' }, lat: 9.6615, lon: 80.0255 },
+  { id: 'kilinochchi', names: { en: 'Kilinochchi', si: 'කිලිනොච්චිය', ta: 'கிளிநொச்சி' }, lat: 9.3803, lon: 80.377 },
+  { id: 'mannar', names: { en: 'Mannar', si: 'මන්නාරම', ta: 'மன்னார்' }, lat: 8.981, lon: 79.9044 },
+  { id: 'vavuniya', names: { en: 'Vavuniya', si: 'වවුනියාව', ta: 'வவுனியா' }, lat: 8.7514, lon: 80.4971 },
+  { id: 'mullaitivu', names: { en: 'Mullaitivu', si: 'මුලතිව්', ta: 'முல்லைத்தீவு' }, lat: 9.2671, lon: 80.8142 },
+  { id: 'batticaloa', names: { en: 'Batticaloa', si: 'මඩකලපුව', ta: 'மட்டக்களப்பு' }, lat: 7.731, lon: 81.6747 },
+  { id: 'ampara', names: { en: 'Ampara', si: 'අම්පාර', ta: 'அம்பாறை' }, lat: 7.2975, lon: 81.682 },
+  { id: 'trincomalee', names: { en: 'Trincomalee', si: 'ත්‍රිකුණාමලය', ta: 'திருகோணமலை' }, lat: 8.5874, lon: 81.2152 },
+  { id: 'kurunegala', names: { en: 'Kurunegala', si: 'කුරුණෑගල', ta: 'குருநாகல்' }, lat: 7.4863, lon: 80.3623 },
+  { id: 'puttalam', names: { en: 'Puttalam', si: 'පුත්තලම', ta: 'புத்தளம்' }, lat: 8.0362, lon: 79.8283 },
+  { id: 'anuradhapura', names: { en: 'Anuradhapura', si: 'අනුරාධපුරය', ta: 'அனுராதபுரம்' }, lat: 8.3114, lon: 80.4037 },
+  { id: 'polonnaruwa', names: { en: 'Polonnaruwa', si: 'පොළොන්නරුව', ta: 'பொலன்னறுவை' }, lat: 7.9403, lon: 81.0188 },
+  { id: 'badulla', names: { en: 'Badulla', si: 'බදුල්ල', ta: 'பதுளை' }, lat: 6.9934, lon: 81.055 },
+  { id: 'monaragala', names: { en: 'Monaragala', si: 'මොණරාගල', ta: 'மொனராகலை' }, lat: 6.8728, lon: 81.3507 },
+  { id: 'ratnapura', names: { en: 'Ratnapura', si: 'රත්නපුර', ta: 'இரத்தினபுரி' }, lat: 6.6828, lon: 80.3992 },
+  { id: 'kegalle', names: { en: 'Kegalle', si: 'කෑගල්ල', ta: 'கேகாலை' }, lat: 7.2513, lon: 80.3464 },
+];
@@ -0,0 +1,116 @@
+import { IconSymbolName } from '@/components/ui/IconSymbol';
+import { Backdrop } from '@/constants/Colors';
+import { TranslationKey } from '@/i18n';
+import { CurrentConditions, WeatherCondition } from '@/services/weather';
+import { secondsOfLocationDay } from '@/utils/time';
+
+/** How disruptive a condition is, from a clear sky to a tornado. */
+export type ConditionSeverity = 'none' | 'minor' | 'moderate' | 'severe' | 'extreme';
+
+export interface ConditionInfo {
+  /** OpenWeather's condition group, as in `WeatherCondition.main`. */
+  group: string;
+  label: TranslationKey;
+  icon: { day: IconSymbolName; night: IconSymbolName };
+  backdrop: Backdrop;
+  severity: ConditionSeverity;
+}
+
+const condition = (
+  label: TranslationKey,
+  group: string,
+  backdrop: Backdrop,
+  severity: ConditionSeverity,
+  day: IconSymbolName,
+  night: IconSymbolName = day
+): ConditionInfo => ({ group, label, icon: { day, night }, backdrop, severity });
+
+/** Every OpenWeather condition ID; Open-Meteo's WMO codes are mapped onto these too. */
+const CONDITIONS: Record<number, ConditionInfo> = {
+  200: condition('condition.200', 'Thunderstorm', 'Thunderstorm', 'moderate', 'cloud.bolt.rain.fill'),
+  201: condition('condition.201', 'Thunderstorm', 'Thunderstorm', 'severe', 'cloud.bolt.rain.fill'),
+  202: condition('condition.202', 'Thunderstorm', 'Thunderstorm', 'extreme', 'cloud.bolt.rain.fill'),
+  210: condition('condition.210', 'Thunderstorm', 'Thunderstorm', 'moderate', 'cloud.bolt.fill'),
+  211: condition('condition.211', 'Thunderstorm', 'Thunderstorm', 'severe', 'cloud.bolt.fill'),
+  212: condition('condition.212', 'Thunderstorm', 'Thunderstorm', 'extreme', 'cloud.bolt.fill'),
+  221: condition('condition.221', 'Thunderstorm', 'Thunderstorm', 'severe', 'cloud.bolt.fill'),
+  230: condition('condition.230', 'Thunderstorm', 'Thunderstorm', 'moderate', 'cloud.bolt.rain.fill'),
+  231: condition('condition.231', 'Thunderstorm', 'Thunderstorm', 'moderate', 'cloud.bolt.rain.fill'),
+  232: condition('condition.232', 'Thunderstorm', 'Thunderstorm', 'severe', 'cloud.bolt.rain.fill'),
+
+  300: condition('condition.300', 'Drizzle', 'Drizzle', 'none', 'cloud.drizzle.fill'),
+  301: condition('condition.301', 'Drizzle', 'Drizzle', 'minor', 'cloud.drizzle.fill'),
+  302: condition('condition.302', 'Drizzle', 'Drizzle', 'moderate', 'cloud.drizzle.fill'),
+  310: condition('condition.310', 'Drizzle', 'Drizzle', 'none', 'cloud.drizzle.fill'),
+  311: condition('condition.311', 'Drizzle', 'Drizzle', 'minor', 'cloud.drizzle.fill'),
+  312: condition('condition.312', 'Drizzle', 'Drizzle', 'moderate', 'cloud.drizzle.fill'),
+  313: condition('condition.313', 'Drizzle', 'Drizzle', 'moderate', 'cloud.drizzle.fill'),
+  314: condition('condition.314', 'Drizzle', 'Drizzle', 'moderate', 'cloud.drizzle.fill'),
+  321: condition('condition.321', 'Drizzle', 'Drizzle', 'minor', 'cloud.drizzle.fill'),
+
+  500: condition('condition.500', 'Rain', 'Rain', 'minor', 'cloud.sun.rain.fill', 'cloud.moon.rain.fill'),
+  501: condition('condition.501', 'Rain', 'Rain', 'moderate', 'cloud.sun.rain.fill', 'cloud.moon.rain.fill'),
+  502: condition('condition.502', 'Rain', 'Rain', 'severe', 'cloud.heavyrain.fill'),
+  503: condition('condition.503', 'Rain', 'Rain', 'severe', 'cloud.heavyrain.fill'),
+  504: condition('condition.504', 'Rain', 'Rain', 'extreme', 'cloud.heavyrain.fill'),
+  511: condition('condition.511', 'Rain', 'Rain', 'severe', 'cloud.sleet.fill'),
+  520: condition('condition.520', 'Rain', 'Rain', 'minor', 'cloud.rain.fill'),
+  521: condition('condition.521', 'Rain', 'Rain', 'moderate', 'cloud.rain.fill'),
+  522: condition('condition.522', 'Rain', 'Rain', 'severe', 'cloud.heavyrain.fill'),
+  531: condition('condition.531', 'Rain', 'Rain', 'moderate', 'cloud.rain.fill'),
+
+  600: condition('condition.600', 'Snow', 'Snow', 'minor', 'cloud.snow.fill'),
+  601: condition('condition.601', 'Snow', 'Snow', 'moderate', 'cloud.snow.fill'),
+  602: condition('condition.602', 'Snow', 'Snow', 'severe', 'snowflake'),
+  611: condition('condition.611', 'Snow', 'Snow', 'moderate', 'cloud.sleet.fill'),
+  612: condition('condition.612', 'Snow', 'Snow', 'minor', 'cloud.sleet.fill'),
+  613: condition('condition.613', 'Snow', 'Snow', 'moderate', 'cloud.sleet.fill'),
+  615: condition('condition.615', 'Snow', 'Snow', 'minor', 'cloud.sleet.fill'),
+  616: condition('condition.616', 'Snow', 'Snow', 'moderate', 'cloud.sleet.fill'),
+  620: condition('condition.620', 'Snow', 'Snow', 'minor', 'cloud.snow.fill'),
+  621: condition('condition.621', 'Snow', 'Snow', 'moderate', 'cloud.snow.fill'),
+  622: condition('condition.622', 'Snow', 'Snow', 'severe', 'snowflake'),
+
+  701: condition('condition.701', 'Mist', 'Mist', 'none', 'cloud.fog.fill'),
+  711: condition('condition.711', 'Smoke', 'Mist', 'minor', 'smoke.fill'),
+  721: condition('condition.721', 'Haze', 'Mist', 'none', 'sun.haze.fill', 'moon.haze.fill'),
+  731: condition('condition.731', 'Dust', 'Dust', 'minor', 'sun.dust.fill', 'moon.dust.fill'),
+  741: condition('condition.741', 'Fog', 'Mist', 'minor', 'cloud.fog.fill'),
+  751: condition('condition.751', 'Sand', 'Dust', 'minor', 'sun.dust.fill', 'moon.dust.fill'),
+  761: condition('condition.761', 'Dust', 'Dust', 'minor', 'sun.dust.fill', 'moon.dust.fill'),
+  762: condition('condition.762', 'Ash', 'Dust', 'severe', 'smoke.fill'),
+  771: condition('condition.771', 'Squall', 'Thunderstorm', 'severe', 'wind'),
+  781: condition('condition.781', 'Tornado', 'Thunderstorm', 'extreme', 'tornado'),
+
+  800: condition('condition.800', 'Clear', 'Clear', 'none', 'sun.max.fill', 'moon.stars.fill'),
+  801: condition('condition.801', 'Clouds', 'Clear', 'none', 'cloud.sun.fill', 'cloud.moon.fill'),
+  802: condition('condition.802', 'Clouds', 'Clouds', 'none', 'cloud.sun.fill', 'cloud.moon.fill'),
+  803: condition('condition.803', 'Clouds', 'Clouds', 'none', 'cloud.fill'),
+  804: condition('condition.804', 'Clouds', 'Clouds', 'none', 'cloud.fill'),
+};
+
+/** What an unlisted ID in each hundred stands for, e.g. a new 5xx code is read as moderate rain. */
+const GROUP_FALLBACKS: Record<number, number> = { 2: 211, 3: 301, 5: 501, 6: 601, 7: 701, 8: 803 };
+
+/** The catalog entry for a condition ID, falling back to its group and then to a clear sky. */
+export const conditionFor = (id: number): ConditionInfo =>
+  CONDITIONS[id] ?? CONDITIONS[GROUP_FALLBACKS[Math.floor(id / 100)]] ?? CONDITIONS[800];
+
+/**
+ * The condition's icon, by default in its night variant when the provider
+ * flagged the report as after dark. Summaries of a whole day pass `night: false`.
+ */
+export const conditionIcon = (
+  { id, icon }: Pick<WeatherCondition, 'id' | 'icon'>,
+  night: boolean = icon.endsWith('n')
+) => conditionFor(id).icon[night ? 'night' : 'day'];
+
+/**
+ * Compares times of day at the location itself, so the answer stays right for
+ * cities in other timezones and for cached reports whose sunrise is days old.
+ */
+export const isNightTime = (current: CurrentConditions | null, now: number = Date.now() / 1000) => {
+  if (!current) return false;
+  const timeOfDay = (time: number) => secondsOfLocationDay(time, current.timezoneOffset);
+  return timeOfDay(now) < timeOfDay(current.sunrise) || timeOfDay(now) > timeOfDay(current.sunset);
+};
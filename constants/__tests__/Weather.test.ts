@@ -0,0 +1,27 @@
+import { conditionFor, conditionIcon } from '@/constants/Weather';
+
+describe('conditionFor', () => {
+  it('describes listed IDs', () => {
+    expect(conditionFor(502)).toMatchObject({ group: 'Rain', label: 'condition.502', severity: 'severe' });
+    expect(conditionFor(781)).toMatchObject({ group: 'Tornado', backdrop: 'Thunderstorm', severity: 'extreme' });
+  });
+
+  it('falls back to the group of an unlisted ID, then to a clear sky', () => {
+    expect(conditionFor(599).label).toBe('condition.501');
+    expect(conditionFor(899).label).toBe('condition.803');
+    expect(conditionFor(100).label).toBe('condition.800');
+  });
+});
+
+describe('conditionIcon', () => {
+  const clear = { id: 800, icon: '01n' };
+
+  it('follows the provider icon code by default', () => {
+    expect(conditionIcon(clear)).toBe('moon.stars.fill');
+    expect(conditionIcon({ ...clear, icon: '01d' })).toBe('sun.max.fill');
+  });
+
+  it('uses the day variant when asked, e.g. for a daily summary', () => {
+    expect(conditionIcon(clear, false)).toBe('sun.max.fill');
+  });
+});
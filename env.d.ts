@@ -1,3 +1,5 @@
 declare module '@env' {
   export const OPENWEATHER_API_KEY: string;
-}
\ No newline at end of file
+  /** Optional override for weather map tiles, e.g. a local tile server. */
+  export const WEATHER_TILE_URL: string | undefined;
+}
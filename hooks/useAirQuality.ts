@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+
+import { AirQuality, Coordinates, fetchAirQuality } from '@/services/weather';
+
+/**
+ * Air quality at `coords`, refetched whenever a new coordinates object comes
+ * in (i.e. with every weather report). A refresh at the same spot keeps the
+ * previous reading on screen until the new one arrives. Null while the first
+ * reading for a location loads, without coordinates, or when no provider
+ * could serve it: air quality is an extra, so failures leave the rest of the
+ * page alone.
+ */
+export function useAirQuality(coords: Coordinates | null) {
+  const [airQuality, setAirQuality] = useState<AirQuality | null>(null);
+  const lat = coords?.lat;
+  const lon = coords?.lon;
+
+  useEffect(() => {
+    setAirQuality(null);
+  }, [lat, lon]);
+
+  useEffect(() => {
+    if (!coords) return;
+
+    const controller = new AbortController();
+    fetchAirQuality(coords, { signal: controller.signal })
+      .then(setAirQuality)
+      .catch(() => {});
+    return () => controller.abort();
+  }, [coords]);
+
+  return airQuality;
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+
+import { createRefreshScheduler, RefreshScheduler } from '@/services/refreshScheduler';
+
+const MINUTE_MS = 60 * 1000;
+/** Data older than this is refreshed as soon as the app comes back to the foreground. */
+const RESUME_AFTER_MS = 5 * MINUTE_MS;
+
+/**
+ * Calls `refresh` every `intervalMinutes` while the app is in the foreground,
+ * counting from `updatedAt`, and straight away on returning to the app with
+ * data a few minutes old. An interval of 0 turns automatic refreshes off.
+ */
+export function useAutoRefresh(refresh: () => void, updatedAt: number | null, intervalMinutes: number) {
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+  const schedulerRef = useRef<RefreshScheduler | null>(null);
+
+  useEffect(() => {
+    if (intervalMinutes <= 0) return;
+    const intervalMs = intervalMinutes * MINUTE_MS;
+    const scheduler = createRefreshScheduler({
+      intervalMs,
+      resumeAfterMs: Math.min(intervalMs, RESUME_AFTER_MS),
+      onRefresh: () => refreshRef.current(),
+    });
+    schedulerRef.current = scheduler;
+    scheduler.setForeground(AppState.currentState === 'active');
+    const subscription = AppState.addEventListener('change', (state) => scheduler.setForeground(state === 'active'));
+    return () => {
+      subscription.remove();
+      scheduler.dispose();
+      schedulerRef.current = null;
+    };
+  }, [intervalMinutes]);
+
+  useEffect(() => {
+    if (updatedAt !== null) schedulerRef.current?.markRefreshed(updatedAt);
+  }, [updatedAt, intervalMinutes]);
+}
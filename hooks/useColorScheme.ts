@@ -1 +1,12 @@
-export { useColorScheme } from 'react-native';
+import { useColorScheme as useSystemColorScheme } from 'react-native';
+
+import { usePreferences } from '@/hooks/usePreferences';
+
+/** The device's color scheme, unless the user has chosen one in Settings. */
+export function useColorScheme() {
+  const system = useSystemColorScheme();
+  const { theme } = usePreferences();
+  if (theme === 'system') return system;
+  // High contrast draws light text on dark backdrops.
+  return theme === 'light' ? 'light' : 'dark';
+}
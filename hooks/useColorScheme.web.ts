@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { useColorScheme as useRNColorScheme } from 'react-native';
 
+import { usePreferences } from '@/hooks/usePreferences';
+
 /**
  * To support static rendering, this value needs to be re-calculated on the client side for web
  */
@@ -12,9 +14,11 @@ export function useColorScheme() {
   }, []);
 
   const colorScheme = useRNColorScheme();
+  const { theme } = usePreferences();
 
   if (hasHydrated) {
-    return colorScheme;
+    if (theme === 'system') return colorScheme;
+    return theme === 'light' ? 'light' : 'dark';
   }
 
   return 'light';
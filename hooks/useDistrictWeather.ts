@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { District, DISTRICTS } from '@/constants/Districts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { createRequestQueue } from '@/services/requestQueue';
+import { fetchWeather, WeatherReport } from '@/services/weather';
+import { loadCachedWeather, saveCachedWeather, weatherCacheKey } from '@/services/weatherCache';
+
+export interface DistrictWeather {
+  district: District;
+  report: WeatherReport | null;
+  /** Unix milliseconds the report was fetched at, when it came from the offline cache. */
+  cachedAt: number | null;
+  loading: boolean;
+}
+
+/**
+ * Every district report is two API calls (current and forecast), so 12 reports
+ * a minute spend at most 24 of OpenWeather's shared budget of 50 calls a minute,
+ * leaving the rest for the screens the user opens while a sweep is running.
+ */
+const districtQueue = createRequestQueue({ concurrency: 4, perMinute: 12 });
+
+const initialState = (): DistrictWeather[] =>
+  DISTRICTS.map((district) => ({ district, report: null, cachedAt: null, loading: true }));
+
+/** Weather for all districts, filled in row by row as the queued requests come back. */
+export function useDistrictWeather() {
+  const [districts, setDistricts] = useState<DistrictWeather[]>(initialState);
+  const { language } = useTranslation();
+  const generation = useRef(0);
+
+  const load = useCallback(() => {
+    const current = ++generation.current;
+    const update = (id: string, patch: Partial<DistrictWeather>) => {
+      if (current !== generation.current) return;
+      setDistricts((rows) => rows.map((row) => (row.district.id === id ? { ...row, ...patch } : row)));
+    };
+
+    setDistricts((rows) => rows.map((row) => ({ ...row, loading: true })));
+    DISTRICTS.forEach((district) => {
+      const query = { lat: district.lat, lon: district.lon, name: district.names[language] };
+      const cacheKey = weatherCacheKey(query);
+      // Paint the last known report while this district waits its turn in the queue.
+      loadCachedWeather(cacheKey).then((cached) => {
+        if (!cached) return;
+        setDistricts((rows) =>
+          rows.map((row) =>
+            row.district.id === district.id && !row.report
+              ? { ...row, report: cached.report, cachedAt: cached.savedAt }
+              : row
+          )
+        );
+      });
+      districtQueue
+        // Tasks still queued from a superseded sweep are skipped rather than spent.
+        .enqueue(async () => (current === generation.current ? fetchWeather(query, { language }) : null))
+        .then((report) => {
+          if (!report) return;
+          update(district.id, { report, cachedAt: null, loading: false });
+          saveCachedWeather(cacheKey, report);
+        })
+        .catch(async () => {
+          const cached = await loadCachedWeather(cacheKey);
+          update(district.id, { report: cached?.report ?? null, cachedAt: cached?.savedAt ?? null, loading: false });
+        });
+    });
+  }, [language]);
+
+  useEffect(() => {
+    load();
+    return () => {
+      generation.current += 1;
+    };
+  }, [load]);
+
+  return { districts, loading: districts.some((row) => row.loading), refresh: load };
+}
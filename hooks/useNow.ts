@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Returns the current time in unix milliseconds, re-rendering every `intervalMs`
+ * so relative labels like "5 minutes ago" stay current.
+ */
+export function useNow(intervalMs: number = 60 * 1000) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
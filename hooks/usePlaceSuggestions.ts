@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+
+import { useTranslation } from '@/hooks/useTranslation';
+import { Place, searchPlaces } from '@/services/weather';
+
+const DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Geocoding suggestions for text the user is still typing, named in the app's
+ * language where the provider knows a local name. Lookups are debounced, and a
+ * lookup still in flight is aborted as soon as the text changes again.
+ */
+export function usePlaceSuggestions(text: string) {
+  const [suggestions, setSuggestions] = useState<Place[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { language } = useTranslation();
+
+  useEffect(() => {
+    const query = text.trim();
+    if (query.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const places = await searchPlaces(query, { language, signal: controller.signal });
+        if (!controller.signal.aborted) setSuggestions(places);
+      } catch {
+        if (!controller.signal.aborted) setSuggestions([]);
+      }
+      if (!controller.signal.aborted) setLoading(false);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [text, language]);
+
+  return { suggestions, loading };
+}
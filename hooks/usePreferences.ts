@@ -0,0 +1,6 @@
+import { useStore } from '@/hooks/useStore';
+import { preferencesStore } from '@/services/preferences';
+
+export function usePreferences() {
+  return useStore(preferencesStore);
+}
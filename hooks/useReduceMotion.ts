@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { AccessibilityInfo } from 'react-native';
+
+/** Whether the OS asks apps to cut down on motion; follows the setting while the app is open. */
+export function useReduceMotion() {
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    AccessibilityInfo.isReduceMotionEnabled().then((value) => active && setEnabled(value), () => {});
+    const subscription = AccessibilityInfo.addEventListener('reduceMotionChanged', setEnabled);
+    return () => {
+      active = false;
+      subscription.remove();
+    };
+  }, []);
+
+  return enabled;
+}
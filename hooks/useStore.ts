@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+
+import { PersistedStore } from '@/services/persistedStore';
+
+export function useStore<T>(store: PersistedStore<T>) {
+  return useSyncExternalStore(store.subscribe, store.get);
+}
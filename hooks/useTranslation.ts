@@ -0,0 +1,16 @@
+import { useLocales } from 'expo-localization';
+import { useCallback } from 'react';
+
+import { usePreferences } from '@/hooks/usePreferences';
+import { LOCALES, resolveLanguage, translate, Translate } from '@/i18n';
+
+/** The active language, re-rendering when either the user's choice or the device language changes. */
+export function useTranslation() {
+  const { language: preference } = usePreferences();
+  const [deviceLocale] = useLocales();
+  const language = resolveLanguage(preference, deviceLocale?.languageCode);
+
+  const t = useCallback<Translate>((key, params) => translate(language, key, params), [language]);
+
+  return { t, language, locale: LOCALES[language] };
+}
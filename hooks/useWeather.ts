@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useTranslation } from '@/hooks/useTranslation';
+import { recordObservation } from '@/services/history';
+import { fetchWeather, LocationQuery, toWeatherError, WeatherError, WeatherReport } from '@/services/weather';
+import { loadCachedWeather, saveCachedWeather } from '@/services/weatherCache';
+
+/** A fixed place, or a resolver such as a GPS lookup that runs before every load. */
+export type WeatherSource = LocationQuery | (() => Promise<LocationQuery>);
+
+interface WeatherState {
+  report: WeatherReport | null;
+  /** Unix milliseconds the displayed report was fetched at, when it came from the offline cache. */
+  cachedAt: number | null;
+  /** Unix milliseconds the displayed report was fetched at, wherever it came from. */
+  updatedAt: number | null;
+  loading: boolean;
+  refreshing: boolean;
+  /** Why the last load failed, when there is no cached report to show instead. */
+  error: WeatherError | null;
+}
+
+const initialState: WeatherState = {
+  report: null,
+  cachedAt: null,
+  updatedAt: null,
+  loading: true,
+  refreshing: false,
+  error: null,
+};
+
+/**
+ * Loads the weather for `source`, painting the last cached report for `cacheKey`
+ * straight away and falling back to it when the network request fails.
+ */
+export function useWeather(source: WeatherSource, cacheKey: string) {
+  const [state, setState] = useState<WeatherState>(initialState);
+  const { language } = useTranslation();
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+
+  // Every load gets a generation; only the latest one may touch state, so a slow
+  // response for a place the user has already moved on from is dropped.
+  const generationRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    generationRef.current += 1;
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const load = useCallback(async (refreshing: boolean) => {
+    cancel();
+    const generation = generationRef.current;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const isLatest = () => generation === generationRef.current;
+
+    setState((current) => ({ ...current, loading: !refreshing, refreshing, error: null }));
+    try {
+      const target = sourceRef.current;
+      const query = typeof target === 'function' ? await target() : target;
+      if (!isLatest()) return;
+      const report = await fetchWeather(query, { language, signal: controller.signal });
+      if (!isLatest()) return;
+      setState({ report, cachedAt: null, updatedAt: Date.now(), loading: false, refreshing: false, error: null });
+      saveCachedWeather(cacheKey, report);
+      recordObservation(report.current);
+    } catch (e) {
+      if (!isLatest()) return;
+      const cached = await loadCachedWeather(cacheKey);
+      if (!isLatest()) return;
+      setState(
+        cached
+          ? {
+              report: cached.report,
+              cachedAt: cached.savedAt,
+              updatedAt: cached.savedAt,
+              loading: false,
+              refreshing: false,
+              error: null,
+            }
+          : {
+              report: null,
+              cachedAt: null,
+              updatedAt: null,
+              loading: false,
+              refreshing: false,
+              error: toWeatherError(e),
+            }
+      );
+    }
+  }, [cacheKey, language, cancel]);
+
+  useEffect(() => {
+    let active = true;
+    setState(initialState);
+    loadCachedWeather(cacheKey).then((cached) => {
+      if (!active || !cached) return;
+      setState((current) =>
+        current.report
+          ? current
+          : { ...current, report: cached.report, cachedAt: cached.savedAt, updatedAt: cached.savedAt }
+      );
+    });
+    return () => {
+      active = false;
+    };
+  }, [cacheKey]);
+
+  // Also re-runs when the language changes, so descriptions come back translated.
+  useEffect(() => {
+    load(false);
+    return cancel;
+  }, [load, cancel]);
+
+  const refresh = useCallback(() => load(true), [load]);
+  /** Loads again from scratch, showing the loading state rather than the pull-to-refresh spinner. */
+  const retry = useCallback(() => load(false), [load]);
+
+  return { ...state, refresh, retry };
+}
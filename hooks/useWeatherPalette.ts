@@ -0,0 +1,67 @@
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { AccessibilityInfo, Platform } from 'react-native';
+
+import { Backdrop, ThemeName, WeatherPalette, weatherPalette } from '@/constants/Colors';
+import { conditionFor, isNightTime } from '@/constants/Weather';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { usePreferences } from '@/hooks/usePreferences';
+import { CurrentConditions } from '@/services/weather';
+
+/** The palette of the backdrop currently on screen; the weather screen provides it for everything drawn over it. */
+export const WeatherPaletteContext = createContext<WeatherPalette>(weatherPalette('light', 'Clear', false));
+
+/** Whether the device asks for stronger contrast: high-contrast text on Android, darker colors on iOS. */
+function useSystemHighContrast() {
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    const source =
+      Platform.OS === 'android'
+        ? { query: AccessibilityInfo.isHighTextContrastEnabled, event: 'highTextContrastChanged' as const }
+        : Platform.OS === 'ios'
+          ? { query: AccessibilityInfo.isDarkerSystemColorsEnabled, event: 'darkerSystemColorsChanged' as const }
+          : null;
+    if (!source) return;
+
+    let active = true;
+    source.query().then((value) => active && setEnabled(value), () => {});
+    const subscription = AccessibilityInfo.addEventListener(source.event, setEnabled);
+    return () => {
+      active = false;
+      subscription.remove();
+    };
+  }, []);
+
+  return enabled;
+}
+
+/** The theme chosen in Settings, or the one the device's appearance and contrast settings call for. */
+export function useThemeName(): ThemeName {
+  const { theme } = usePreferences();
+  const colorScheme = useColorScheme();
+  const systemHighContrast = useSystemHighContrast();
+  if (theme === 'highContrast' || (theme === 'system' && systemHighContrast)) return 'highContrast';
+  return colorScheme === 'dark' ? 'dark' : 'light';
+}
+
+/** A fixed backdrop in the user's theme, for screens that are not about one place's weather. */
+export function useBackdropPalette(backdrop: Backdrop, isNight: boolean = false) {
+  const theme = useThemeName();
+  return useMemo(() => weatherPalette(theme, backdrop, isNight), [theme, backdrop, isNight]);
+}
+
+/** The backdrop and colors for a place's current conditions, in the user's theme. */
+export function useConditionsPalette(conditions: CurrentConditions | null) {
+  const backdrop = conditions ? conditionFor(conditions.condition.id).backdrop : 'Clear';
+  return useBackdropPalette(backdrop, isNightTime(conditions));
+}
+
+export function useWeatherPalette() {
+  return useContext(WeatherPaletteContext);
+}
+
+/** Builds a component's styles from the current palette, once per palette. */
+export function useWeatherStyles<T>(createStyles: (palette: WeatherPalette) => T): T {
+  const palette = useWeatherPalette();
+  return useMemo(() => createStyles(palette), [createStyles, palette]);
+}
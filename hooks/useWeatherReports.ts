@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+import { useTranslation } from '@/hooks/useTranslation';
+import { fetchWeather, LocationQuery, WeatherReport } from '@/services/weather';
+import { loadCachedWeather, saveCachedWeather, weatherCacheKey } from '@/services/weatherCache';
+
+/**
+ * Reports for several places at once, keyed by `weatherCacheKey`. Each place
+ * falls back to its offline copy on failure; places that have neither are absent.
+ * Memoize `queries`: every new array starts a new round of requests.
+ */
+export function useWeatherReports(queries: LocationQuery[]) {
+  const [reports, setReports] = useState<Record<string, WeatherReport>>({});
+  const { language } = useTranslation();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    queries.forEach((query) => {
+      const cacheKey = weatherCacheKey(query);
+      fetchWeather(query, { language, signal: controller.signal })
+        .then((report) => {
+          saveCachedWeather(cacheKey, report);
+          return report;
+        })
+        .catch(async () => (controller.signal.aborted ? null : (await loadCachedWeather(cacheKey))?.report ?? null))
+        .then((report) => {
+          if (!controller.signal.aborted && report) setReports((current) => ({ ...current, [cacheKey]: report }));
+        });
+    });
+    return () => controller.abort();
+  }, [queries, language]);
+
+  return reports;
+}
@@ -0,0 +1,266 @@
+/** English strings; also the source of truth for which keys a catalog must define. */
+export const en = {
+  'common.done': 'Done',
+  'common.edit': 'Edit',
+  'common.on': 'On',
+  'common.off': 'Off',
+
+  'search.placeholder': 'Search for a city...',
+
+  'weather.loading': 'Getting weather data...',
+  'weather.permissionDenied': 'Permission denied. Showing weather for {city}.',
+  'weather.localTime': 'Local time {time}',
+  'weather.updated': 'Updated {age}',
+
+  'errors.invalidKey': 'The weather service rejected the API key. Check the key in your .env file or update the app.',
+  'errors.rateLimited': 'Too many weather requests right now. Wait a minute, then try again.',
+  'errors.offline': 'No internet connection. Check your Wi-Fi or mobile data and try again.',
+  'errors.timeout': 'The weather service took too long to respond. Try again.',
+  'errors.server': 'The weather service is having problems. Try again in a few minutes.',
+  'errors.notFound': 'Could not find that place. Check the spelling or try a nearby town.',
+  'errors.location': 'Could not get your location. Make sure location services are on and try again.',
+  'errors.unknown': 'Something went wrong while loading the weather. Try again.',
+  'errors.retry': 'Try Again',
+
+  'share.message': 'Weather for {location}: {url}',
+
+  'cards.feelsLike': 'Feels Like',
+  'cards.humidity': 'Humidity',
+  'cards.windSpeed': 'Wind Speed',
+  'cards.pressure': 'Pressure',
+  'cards.visibility': 'Visibility',
+  'cards.sunrise': 'Sunrise',
+
+  'forecast.daily': '5-Day Forecast',
+  'forecast.hourly': 'Next 48 Hours',
+
+  'stale.offline': 'Offline · last updated {age}',
+  'stale.updating': 'Updating… · last updated {age}',
+
+  'age.justNow': 'just now',
+  'age.minute': '{count} minute ago',
+  'age.minutes': '{count} minutes ago',
+  'age.hour': '{count} hour ago',
+  'age.hours': '{count} hours ago',
+  'age.day': '{count} day ago',
+  'age.days': '{count} days ago',
+
+  'alerts.title': 'Weather Alerts',
+  'alerts.heavyRain': 'Heavy rain, up to {amount} in 3 hours',
+  'alerts.strongWind': 'Strong wind, up to {speed}',
+  'alerts.thunderstorm': 'Thunderstorms, {chance} chance',
+  'alerts.extremeHeat': 'Extreme heat, feels like {temperature}',
+  'alerts.window': '{day} {start} – {end}',
+
+  'airQuality.title': 'Air Quality',
+  'airQuality.index': 'AQI {value}',
+  'airQuality.good': 'Good',
+  'airQuality.fair': 'Fair',
+  'airQuality.moderate': 'Moderate',
+  'airQuality.poor': 'Poor',
+  'airQuality.veryPoor': 'Very Poor',
+  'airQuality.pollutants': 'Pollutants',
+  'airQuality.hourly': 'Hourly Forecast',
+
+  'uv.title': 'UV Index (estimate)',
+  'uv.now': 'UV {value} now · {level}',
+  'uv.peak': 'Peak {value} at {time}',
+  'uv.window': 'Protection needed {start} – {end}',
+  'uv.noWindow': 'No sun protection needed today',
+  'uv.low': 'Low',
+  'uv.moderate': 'Moderate',
+  'uv.high': 'High',
+  'uv.veryHigh': 'Very High',
+  'uv.extreme': 'Extreme',
+  'uv.advice.low': 'No protection needed. Wear sunglasses on bright days.',
+  'uv.advice.moderate': 'Seek shade around midday, and wear a hat and SPF 30+ sunscreen.',
+  'uv.advice.high': 'Cut time in the sun during the peak window. Hat, sunglasses and SPF 30+ sunscreen, reapplied every 2 hours.',
+  'uv.advice.veryHigh': 'Stay out of the sun during the peak window. Cover up, wear a hat and reapply SPF 50+ sunscreen every 2 hours.',
+  'uv.advice.extreme': 'Avoid being outdoors during the peak window. Cover up fully, wear a wide-brimmed hat and reapply SPF 50+ every 2 hours.',
+
+  'favorites.title': 'Saved Locations',
+  'favorites.empty': 'Tap ☆ next to a searched city to save it here.',
+
+  'districts.title': 'Sri Lanka Overview',
+  'districts.sortName': 'Name',
+  'districts.sortTemperature': 'Temperature',
+  'districts.sortRain': 'Rain',
+  'districts.unavailable': 'No data',
+
+  'compare.title': 'Compare',
+  'compare.intro': 'Pick two to four places to see side by side. Differences are measured from the first.',
+  'compare.add': 'Add a place',
+  'compare.needMore': 'Add at least two places to compare.',
+  'compare.now': 'Now',
+  'compare.daily': 'Daily Forecast',
+  'compare.baseline': 'baseline',
+  'compare.rainChance': 'Chance of rain (24 h)',
+  'compare.rainAmount': 'Rainfall (24 h)',
+  'compare.high': 'High',
+  'compare.low': 'Low',
+  'compare.dayRainChance': 'Chance of rain',
+  'compare.dayRainAmount': 'Rainfall',
+  'compare.warmer': 'warmer',
+  'compare.colder': 'colder',
+  'compare.wetter': 'wetter',
+  'compare.drier': 'drier',
+  'compare.windier': 'windier',
+  'compare.calmer': 'calmer',
+
+  'history.title': 'History',
+  'history.week': 'Last 7 days',
+  'history.month': 'Last 30 days',
+  'history.thisWeek': 'This week',
+  'history.lastWeek': 'Last week',
+  'history.average': 'Average {mean}',
+  'history.weekSummary': 'Average {mean} · last week {previous} ({delta})',
+  'history.rangeSummary': 'Average {mean} · range {min} – {max}',
+  'history.noData': 'No observations in this period',
+  'history.empty': 'History builds up each time you check the weather here. Come back in a few hours.',
+
+  'map.title': 'Weather Map',
+  'map.hint': 'Long-press anywhere to see its weather',
+  'map.precipitation': 'Rain',
+  'map.clouds': 'Clouds',
+  'map.temperature': 'Temperature',
+  'map.wind': 'Wind',
+
+  'preferences.language': 'Language',
+  'preferences.systemLanguage': 'System',
+  'preferences.notifications': 'Notifications',
+  'preferences.rainThreshold': 'Heavy rain (per 3 hours)',
+  'preferences.windThreshold': 'Strong wind',
+  'preferences.heatThreshold': 'Extreme heat (feels like)',
+  'preferences.thunderstormAlerts': 'Thunderstorms',
+  'settings.title': 'Settings',
+  'settings.location': 'Location',
+  'settings.useGps': 'Use current location',
+  'settings.defaultLocation': 'Default location',
+  'settings.defaultLocationHint': 'Shown when the current location is off or unavailable.',
+  'settings.refreshInterval': 'Refresh automatically',
+  'settings.minutes': '{count} min',
+  'settings.appearance': 'Appearance',
+  'settings.theme': 'Theme',
+  'settings.themeSystem': 'System',
+  'settings.themeLight': 'Light',
+  'settings.themeDark': 'Dark',
+  'settings.themeHighContrast': 'High contrast',
+  'settings.timeFormat': 'Time format',
+  'settings.timeSystem': 'System',
+  'settings.time12': '12-hour',
+  'settings.time24': '24-hour',
+  'settings.cards': 'Cards',
+  'settings.units': 'Units',
+
+  'units.temperature': 'Temperature',
+  'units.windSpeed': 'Wind Speed',
+  'units.pressure': 'Pressure',
+  'units.distance': 'Distance & Rainfall',
+
+  'debug.cacheTitle': 'Response Cache',
+  'debug.cacheStats': '{hits} hits · {misses} misses · {shared} shared · {stale} stale',
+
+  'condition.Clear': 'Clear',
+  'condition.Clouds': 'Clouds',
+  'condition.Rain': 'Rain',
+  'condition.Drizzle': 'Drizzle',
+  'condition.Thunderstorm': 'Thunderstorm',
+  'condition.Snow': 'Snow',
+  'condition.Mist': 'Mist',
+  'condition.Smoke': 'Smoke',
+  'condition.Haze': 'Haze',
+  'condition.Dust': 'Dust',
+  'condition.Fog': 'Fog',
+  'condition.Sand': 'Sand',
+  'condition.Ash': 'Ash',
+  'condition.Squall': 'Squall',
+  'condition.Tornado': 'Tornado',
+
+  'condition.200': 'thunderstorm with light rain',
+  'condition.201': 'thunderstorm with rain',
+  'condition.202': 'thunderstorm with heavy rain',
+  'condition.210': 'light thunderstorm',
+  'condition.211': 'thunderstorm',
+  'condition.212': 'heavy thunderstorm',
+  'condition.221': 'ragged thunderstorm',
+  'condition.230': 'thunderstorm with light drizzle',
+  'condition.231': 'thunderstorm with drizzle',
+  'condition.232': 'thunderstorm with heavy drizzle',
+  'condition.300': 'light drizzle',
+  'condition.301': 'drizzle',
+  'condition.302': 'heavy drizzle',
+  'condition.310': 'light drizzle and rain',
+  'condition.311': 'drizzle and rain',
+  'condition.312': 'heavy drizzle and rain',
+  'condition.313': 'showers and drizzle',
+  'condition.314': 'heavy showers and drizzle',
+  'condition.321': 'drizzle showers',
+  'condition.500': 'light rain',
+  'condition.501': 'moderate rain',
+  'condition.502': 'heavy rain',
+  'condition.503': 'very heavy rain',
+  'condition.504': 'extreme rain',
+  'condition.511': 'freezing rain',
+  'condition.520': 'light showers',
+  'condition.521': 'showers',
+  'condition.522': 'heavy showers',
+  'condition.531': 'ragged showers',
+  'condition.600': 'light snow',
+  'condition.601': 'snow',
+  'condition.602': 'heavy snow',
+  'condition.611': 'sleet',
+  'condition.612': 'light sleet showers',
+  'condition.613': 'sleet showers',
+  'condition.615': 'light rain and snow',
+  'condition.616': 'rain and snow',
+  'condition.620': 'light snow showers',
+  'condition.621': 'snow showers',
+  'condition.622': 'heavy snow showers',
+  'condition.701': 'mist',
+  'condition.711': 'smoke',
+  'condition.721': 'haze',
+  'condition.731': 'sand and dust whirls',
+  'condition.741': 'fog',
+  'condition.751': 'sand',
+  'condition.761': 'dust',
+  'condition.762': 'volcanic ash',
+  'condition.771': 'squalls',
+  'condition.781': 'tornado',
+  'condition.800': 'clear sky',
+  'condition.801': 'few clouds',
+  'condition.802': 'scattered clouds',
+  'condition.803': 'broken clouds',
+  'condition.804': 'overcast',
+
+  'a11y.degrees': '{value} degrees',
+  'a11y.percent': '{value} percent',
+  'a11y.speed.ms': '{value} metres per second',
+  'a11y.speed.kmh': '{value} kilometres per hour',
+  'a11y.speed.mph': '{value} miles per hour',
+  'a11y.speed.knots': '{value} knots',
+  'a11y.speed.beaufort': 'Beaufort force {value}',
+  'a11y.pressure.hPa': '{value} hectopascals',
+  'a11y.pressure.inHg': '{value} inches of mercury',
+  'a11y.pressure.mmHg': '{value} millimetres of mercury',
+  'a11y.distance.km': '{value} kilometres',
+  'a11y.distance.mi': '{value} miles',
+  'a11y.precipitation.mm': '{value} millimetres',
+  'a11y.precipitation.in': '{value} inches',
+  'a11y.micrograms': '{value} micrograms per cubic metre',
+  'a11y.currentConditions': '{temperature}, {condition}',
+  'a11y.forecastDay': '{day}, {condition}, high {high}, low {low}, {rain} chance of rain',
+  'a11y.forecastHour': '{time}, {condition}, {temperature}, {rain} chance of rain',
+  'a11y.addFavorite': 'Save location',
+  'a11y.removeFavorite': 'Remove saved location',
+  'a11y.share': 'Share',
+  'a11y.back': 'Back',
+  'a11y.search': 'Search',
+  'a11y.editFavorites': 'Edit saved locations',
+  'a11y.moveFavoriteUp': 'Move {name} up',
+  'a11y.moveFavoriteDown': 'Move {name} down',
+  'a11y.removeNamedFavorite': 'Remove {name}',
+  'a11y.addComparison': 'Add {name} to the comparison',
+  'a11y.removeComparison': 'Remove {name} from the comparison',
+  'a11y.page': 'Location {index} of {count}',
+  'a11y.showDetails': 'Shows the pollutant breakdown',
+};
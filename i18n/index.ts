@@ -0,0 +1,52 @@
+import { en } from '@/i18n/en';
+import { si } from '@/i18n/si';
+import { ta } from '@/i18n/ta';
+
+export type Language = 'en' | 'si' | 'ta';
+export type LanguagePreference = Language | 'system';
+
+export type TranslationKey = keyof typeof en;
+export type Catalog = Record<TranslationKey, string>;
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+const CATALOGS: Record<Language, Catalog> = { en, si, ta };
+
+export const LANGUAGES: Language[] = ['en', 'si', 'ta'];
+
+/** Each language's name in its own script, as shown in the language picker. */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  si: 'සිංහල',
+  ta: 'தமிழ்',
+};
+
+/** BCP 47 locale used for Intl date and number formatting. */
+export const LOCALES: Record<Language, string> = {
+  en: 'en-US',
+  si: 'si-LK',
+  ta: 'ta-LK',
+};
+
+const isLanguage = (code: string | null | undefined): code is Language =>
+  LANGUAGES.includes(code as Language);
+
+export const isTranslationKey = (key: string): key is TranslationKey => key in en;
+
+/** The explicit choice if there is one, otherwise the device language when we have a catalog for it. */
+export function resolveLanguage(preference: LanguagePreference, deviceLanguage?: string | null): Language {
+  if (preference !== 'system') return preference;
+  return isLanguage(deviceLanguage) ? deviceLanguage : 'en';
+}
+
+export function translate(language: Language, key: TranslationKey, params: TranslationParams = {}) {
+  return CATALOGS[language][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/** Localized name of an OpenWeather condition group such as `Rain`, or the group itself if unknown. */
+export function translateConditionGroup(t: Translate, main: string) {
+  const key = `condition.${main}`;
+  return isTranslationKey(key) ? t(key) : main;
+}
@@ -0,0 +1,267 @@
+import type { Catalog } from '@/i18n';
+
+export const si: Catalog = {
+  'common.done': 'හරි',
+  'common.edit': 'සංස්කරණය',
+  'common.on': 'සක්‍රිය',
+  'common.off': 'අක්‍රිය',
+
+  'search.placeholder': 'නගරයක් සොයන්න...',
+
+  'weather.loading': 'කාලගුණ දත්ත ලබා ගනිමින්...',
+  'weather.permissionDenied': 'අවසරය ප්‍රතික්ෂේප විය. {city} සඳහා කාලගුණය පෙන්වයි.',
+  'weather.localTime': 'දේශීය වේලාව {time}',
+  'weather.updated': 'යාවත්කාලීන කළේ {age}',
+
+  'errors.invalidKey': 'කාලගුණ සේවාව මෙම යෙදුමේ API යතුර පිළිගත්තේ නැත. .env ගොනුවේ යතුර පරීක්ෂා කරන්න හෝ යෙදුම යාවත්කාලීන කරන්න.',
+  'errors.rateLimited': 'මේ මොහොතේ කාලගුණ ඉල්ලීම් වැඩියි. මිනිත්තුවක් රැඳී සිට නැවත උත්සාහ කරන්න.',
+  'errors.offline': 'අන්තර්ජාල සම්බන්ධතාවක් නැත. Wi-Fi හෝ ජංගම දත්ත පරීක්ෂා කර නැවත උත්සාහ කරන්න.',
+  'errors.timeout': 'කාලගුණ සේවාව ප්‍රතිචාර දැක්වීමට වැඩි කාලයක් ගත්තා. නැවත උත්සාහ කරන්න.',
+  'errors.server': 'කාලගුණ සේවාවේ ගැටලුවක් ඇත. මිනිත්තු කිහිපයකින් නැවත උත්සාහ කරන්න.',
+  'errors.notFound': 'එම ස්ථානය සොයාගත නොහැකි විය. අක්ෂර වින්‍යාසය පරීක්ෂා කරන්න හෝ ආසන්න නගරයක් උත්සාහ කරන්න.',
+  'errors.location': 'ඔබගේ ස්ථානය ලබාගත නොහැකි විය. ස්ථාන සේවා ක්‍රියාත්මක දැයි බලා නැවත උත්සාහ කරන්න.',
+  'errors.unknown': 'කාලගුණය පූරණය කිරීමේදී දෝෂයක් ඇති විය. නැවත උත්සාහ කරන්න.',
+  'errors.retry': 'නැවත උත්සාහ කරන්න',
+
+  'share.message': '{location} සඳහා කාලගුණය: {url}',
+
+  'cards.feelsLike': 'දැනෙන උෂ්ණත්වය',
+  'cards.humidity': 'ආර්ද්‍රතාවය',
+  'cards.windSpeed': 'සුළං වේගය',
+  'cards.pressure': 'වායු පීඩනය',
+  'cards.visibility': 'දෘශ්‍යතාව',
+  'cards.sunrise': 'හිරු උදාව',
+
+  'forecast.daily': 'දින 5 අනාවැකිය',
+  'forecast.hourly': 'ඉදිරි පැය 48',
+
+  'stale.offline': 'නොබැඳි · අවසන් යාවත්කාලීනය {age}',
+  'stale.updating': 'යාවත්කාලීන වෙමින්… · අවසන් යාවත්කාලීනය {age}',
+
+  'age.justNow': 'මොහොතකට පෙර',
+  'age.minute': 'මිනිත්තු {count}කට පෙර',
+  'age.minutes': 'මිනිත්තු {count}කට පෙර',
+  'age.hour': 'පැය {count}කට පෙර',
+  'age.hours': 'පැය {count}කට පෙර',
+  'age.day': 'දින {count}කට පෙර',
+  'age.days': 'දින {count}කට පෙර',
+
+  'alerts.title': 'කාලගුණ අනතුරු ඇඟවීම්',
+  'alerts.heavyRain': 'තද වැසි, පැය 3කදී {amount} දක්වා',
+  'alerts.strongWind': 'තද සුළං, {speed} දක්වා',
+  'alerts.thunderstorm': 'ගිගුරුම් සහිත වැසි, සම්භාවිතාව {chance}',
+  'alerts.extremeHeat': 'අධික උෂ්ණත්වය, {temperature} ලෙස දැනේ',
+  'alerts.window': '{day} {start} – {end}',
+
+  'airQuality.title': 'වායු ගුණත්වය',
+  'airQuality.index': 'AQI {value}',
+  'airQuality.good': 'හොඳයි',
+  'airQuality.fair': 'සාධාරණයි',
+  'airQuality.moderate': 'මධ්‍යස්ථයි',
+  'airQuality.poor': 'දුර්වලයි',
+  'airQuality.veryPoor': 'ඉතා දුර්වලයි',
+  'airQuality.pollutants': 'දූෂක',
+  'airQuality.hourly': 'පැය අනුව පුරෝකථනය',
+
+  'uv.title': 'UV දර්ශකය (ඇස්තමේන්තුව)',
+  'uv.now': 'දැන් UV {value} · {level}',
+  'uv.peak': 'උපරිම {value}, {time} ට',
+  'uv.window': 'ආරක්ෂාව අවශ්‍යයි {start} – {end}',
+  'uv.noWindow': 'අද හිරු ආරක්ෂාව අවශ්‍ය නැත',
+  'uv.low': 'අඩු',
+  'uv.moderate': 'මධ්‍යම',
+  'uv.high': 'ඉහළ',
+  'uv.veryHigh': 'ඉතා ඉහළ',
+  'uv.extreme': 'අතිශය',
+  'uv.advice.low': 'ආරක්ෂාව අවශ්‍ය නැත. දීප්තිමත් දිනවල අව් කණ්ණාඩි පළඳින්න.',
+  'uv.advice.moderate': 'දහවල් කාලයේ සෙවණ සොයන්න, තොප්පියක් සහ SPF 30+ සන්ස්ක්‍රීන් භාවිත කරන්න.',
+  'uv.advice.high': 'උපරිම කාලය තුළ හිරු එළියේ සිටීම අඩු කරන්න. තොප්පිය, අව් කණ්ණාඩි සහ SPF 30+ සන්ස්ක්‍රීන් පැය 2කට වරක් නැවත ගල්වන්න.',
+  'uv.advice.veryHigh': 'උපරිම කාලය තුළ හිරු එළියෙන් වළකින්න. ශරීරය ආවරණය කර, තොප්පියක් පළඳා SPF 50+ සන්ස්ක්‍රීන් පැය 2කට වරක් ගල්වන්න.',
+  'uv.advice.extreme': 'උපරිම කාලය තුළ එළිමහනේ නොසිටින්න. සම්පූර්ණයෙන් ආවරණය වී, පළල් තොප්පියක් පළඳා SPF 50+ පැය 2කට වරක් ගල්වන්න.',
+
+  'favorites.title': 'සුරැකි ස්ථාන',
+  'favorites.empty': 'සෙවූ නගරයක් මෙහි සුරැකීමට ☆ තට්ටු කරන්න.',
+
+  'districts.title': 'ශ්‍රී ලංකා දළ විශ්ලේෂණය',
+  'districts.sortName': 'නම',
+  'districts.sortTemperature': 'උෂ්ණත්වය',
+  'districts.sortRain': 'වැසි',
+  'districts.unavailable': 'දත්ත නැත',
+
+  'compare.title': 'සංසන්දනය',
+  'compare.intro': 'එකිනෙක සැසඳීමට ස්ථාන දෙකක් සිට හතරක් දක්වා තෝරන්න. වෙනස්කම් මනිනු ලබන්නේ පළමු ස්ථානයට සාපේක්ෂවයි.',
+  'compare.add': 'ස්ථානයක් එක් කරන්න',
+  'compare.needMore': 'සැසඳීමට අවම වශයෙන් ස්ථාන දෙකක් එක් කරන්න.',
+  'compare.now': 'දැන්',
+  'compare.daily': 'දෛනික පුරෝකථනය',
+  'compare.baseline': 'පදනම',
+  'compare.rainChance': 'වැසි සම්භාවිතාව (පැය 24)',
+  'compare.rainAmount': 'වර්ෂාපතනය (පැය 24)',
+  'compare.high': 'උපරිම',
+  'compare.low': 'අවම',
+  'compare.dayRainChance': 'වැසි සම්භාවිතාව',
+  'compare.dayRainAmount': 'වර්ෂාපතනය',
+  'compare.warmer': 'වඩා උණුසුම්',
+  'compare.colder': 'වඩා සීතල',
+  'compare.wetter': 'වඩා තෙත්',
+  'compare.drier': 'වඩා වියළි',
+  'compare.windier': 'සුළං වැඩි',
+  'compare.calmer': 'සුළං අඩු',
+
+  'history.title': 'ඉතිහාසය',
+  'history.week': 'පසුගිය දින 7',
+  'history.month': 'පසුගිය දින 30',
+  'history.thisWeek': 'මෙම සතිය',
+  'history.lastWeek': 'පසුගිය සතිය',
+  'history.average': 'සාමාන්‍යය {mean}',
+  'history.weekSummary': 'සාමාන්‍යය {mean} · පසුගිය සතිය {previous} ({delta})',
+  'history.rangeSummary': 'සාමාන්‍යය {mean} · පරාසය {min} – {max}',
+  'history.noData': 'මෙම කාලය තුළ නිරීක්ෂණ නැත',
+  'history.empty': 'ඔබ මෙහි කාලගුණය බලන සෑම වරම ඉතිහාසය ගොඩනැගේ. පැය කිහිපයකින් නැවත පැමිණෙන්න.',
+
+  'map.title': 'කාලගුණ සිතියම',
+  'map.hint': 'ඕනෑම ස්ථානයක කාලගුණය බැලීමට එය දිගු වේලාවක් ඔබන්න',
+  'map.precipitation': 'වැසි',
+  'map.clouds': 'වලාකුළු',
+  'map.temperature': 'උෂ්ණත්වය',
+  'map.wind': 'සුළඟ',
+
+  'preferences.language': 'භාෂාව',
+  'preferences.systemLanguage': 'පද්ධතිය',
+  'preferences.notifications': 'දැනුම්දීම්',
+  'preferences.rainThreshold': 'තද වැසි (පැය 3කට)',
+  'preferences.windThreshold': 'තද සුළං',
+  'preferences.heatThreshold': 'අධික උෂ්ණත්වය (දැනෙන)',
+  'preferences.thunderstormAlerts': 'ගිගුරුම් සහිත වැසි',
+  'settings.title': 'සැකසුම්',
+  'settings.location': 'ස්ථානය',
+  'settings.useGps': 'වත්මන් ස්ථානය භාවිත කරන්න',
+  'settings.defaultLocation': 'පෙරනිමි ස්ථානය',
+  'settings.defaultLocationHint': 'වත්මන් ස්ථානය අක්‍රිය හෝ නොලැබෙන විට පෙන්වයි.',
+  'settings.refreshInterval': 'ස්වයංක්‍රීයව යාවත්කාලීන කරන්න',
+  'settings.minutes': 'මිනි. {count}',
+  'settings.appearance': 'පෙනුම',
+  'settings.theme': 'තේමාව',
+  'settings.themeSystem': 'පද්ධතිය',
+  'settings.themeLight': 'ආලෝක',
+  'settings.themeDark': 'අඳුරු',
+  'settings.themeHighContrast': 'ඉහළ වෙනස',
+  'settings.timeFormat': 'වේලා ආකෘතිය',
+  'settings.timeSystem': 'පද්ධතිය',
+  'settings.time12': 'පැය 12',
+  'settings.time24': 'පැය 24',
+  'settings.cards': 'කාඩ්පත්',
+  'settings.units': 'ඒකක',
+
+  'units.temperature': 'උෂ්ණත්වය',
+  'units.windSpeed': 'සුළං වේගය',
+  'units.pressure': 'වායු පීඩනය',
+  'units.distance': 'දුර සහ වර්ෂාපතනය',
+
+  'debug.cacheTitle': 'ප්‍රතිචාර හැඹිලිය',
+  'debug.cacheStats': 'සාර්ථක {hits} · අසාර්ථක {misses} · බෙදාගත් {shared} · පැරණි {stale}',
+
+  'condition.Clear': 'පැහැදිලි',
+  'condition.Clouds': 'වලාකුළු',
+  'condition.Rain': 'වැසි',
+  'condition.Drizzle': 'පොද වැසි',
+  'condition.Thunderstorm': 'ගිගුරුම් සහිත වැසි',
+  'condition.Snow': 'හිම',
+  'condition.Mist': 'මීදුම',
+  'condition.Smoke': 'දුම',
+  'condition.Haze': 'අව් මීදුම',
+  'condition.Dust': 'දූවිලි',
+  'condition.Fog': 'ඝන මීදුම',
+  'condition.Sand': 'වැලි',
+  'condition.Ash': 'අළු',
+  'condition.Squall': 'තද සුළං',
+  'condition.Tornado': 'ටොනේඩෝ',
+
+  'condition.200': 'සැහැල්ලු වැසි සහිත ගිගුරුම්',
+  'condition.201': 'වැසි සහිත ගිගුරුම්',
+  'condition.202': 'තද වැසි සහිත ගිගුරුම්',
+  'condition.210': 'සැහැල්ලු ගිගුරුම්',
+  'condition.211': 'ගිගුරුම්',
+  'condition.212': 'තද ගිගුරුම්',
+  'condition.221': 'අක්‍රමවත් ගිගුරුම්',
+  'condition.230': 'සැහැල්ලු පොද වැසි සහිත ගිගුරුම්',
+  'condition.231': 'පොද වැසි සහිත ගිගුරුම්',
+  'condition.232': 'තද පොද වැසි සහිත ගිගුරුම්',
+  'condition.300': 'සැහැල්ලු පොද වැසි',
+  'condition.301': 'පොද වැසි',
+  'condition.302': 'තද පොද වැසි',
+  'condition.310': 'සැහැල්ලු පොද වැසි සහ වැසි',
+  'condition.311': 'පොද වැසි සහ වැසි',
+  'condition.312': 'තද පොද වැසි සහ වැසි',
+  'condition.313': 'වැසි ඇද හැලීම් සහ පොද වැසි',
+  'condition.314': 'තද වැසි ඇද හැලීම් සහ පොද වැසි',
+  'condition.321': 'පොද වැසි ඇද හැලීම්',
+  'condition.500': 'සැහැල්ලු වැසි',
+  'condition.501': 'මධ්‍යස්ථ වැසි',
+  'condition.502': 'තද වැසි',
+  'condition.503': 'ඉතා තද වැසි',
+  'condition.504': 'අධික වැසි',
+  'condition.511': 'මිදුණු වැසි',
+  'condition.520': 'සැහැල්ලු වැසි ඇද හැලීම්',
+  'condition.521': 'වැසි ඇද හැලීම්',
+  'condition.522': 'තද වැසි ඇද හැලීම්',
+  'condition.531': 'අක්‍රමවත් වැසි ඇද හැලීම්',
+  'condition.600': 'සැහැල්ලු හිම',
+  'condition.601': 'හිම',
+  'condition.602': 'තද හිම',
+  'condition.611': 'හිම මිශ්‍ර වැසි',
+  'condition.612': 'සැහැල්ලු හිම මිශ්‍ර වැසි ඇද හැලීම්',
+  'condition.613': 'හිම මිශ්‍ර වැසි ඇද හැලීම්',
+  'condition.615': 'සැහැල්ලු වැසි සහ හිම',
+  'condition.616': 'වැසි සහ හිම',
+  'condition.620': 'සැහැල්ලු හිම ඇද හැලීම්',
+  'condition.621': 'හිම ඇද හැලීම්',
+  'condition.622': 'තද හිම ඇද හැලීම්',
+  'condition.701': 'මීදුම',
+  'condition.711': 'දුම',
+  'condition.721': 'අව් මීදුම',
+  'condition.731': 'වැලි සහ දූවිලි සුළි',
+  'condition.741': 'ඝන මීදුම',
+  'condition.751': 'වැලි',
+  'condition.761': 'දූවිලි',
+  'condition.762': 'ගිනිකඳු අළු',
+  'condition.771': 'තද සුළං',
+  'condition.781': 'ටොනේඩෝ',
+  'condition.800': 'පැහැදිලි අහස',
+  'condition.801': 'වලාකුළු ස්වල්පයක්',
+  'condition.802': 'විසිරුණු වලාකුළු',
+  'condition.803': 'කැඩුණු වලාකුළු',
+  'condition.804': 'වලාකුළින් වැසුණු අහස',
+
+  'a11y.degrees': 'අංශක {value}',
+  'a11y.percent': 'සියයට {value}',
+  'a11y.speed.ms': 'තත්පරයට මීටර් {value}',
+  'a11y.speed.kmh': 'පැයට කිලෝමීටර් {value}',
+  'a11y.speed.mph': 'පැයට සැතපුම් {value}',
+  'a11y.speed.knots': 'නොට් {value}',
+  'a11y.speed.beaufort': 'බෝෆර්ට් බලය {value}',
+  'a11y.pressure.hPa': 'හෙක්ටොපැස්කල් {value}',
+  'a11y.pressure.inHg': 'රසදිය අඟල් {value}',
+  'a11y.pressure.mmHg': 'රසදිය මිලිමීටර් {value}',
+  'a11y.distance.km': 'කිලෝමීටර් {value}',
+  'a11y.distance.mi': 'සැතපුම් {value}',
+  'a11y.precipitation.mm': 'මිලිමීටර් {value}',
+  'a11y.precipitation.in': 'අඟල් {value}',
+  'a11y.micrograms': 'ඝන මීටරයට මයික්‍රොග්‍රෑම් {value}',
+  'a11y.currentConditions': '{temperature}, {condition}',
+  'a11y.forecastDay': '{day}, {condition}, උපරිම {high}, අවම {low}, වැසි සම්භාවිතාව {rain}',
+  'a11y.forecastHour': '{time}, {condition}, {temperature}, වැසි සම්භාවිතාව {rain}',
+  'a11y.addFavorite': 'ස්ථානය සුරකින්න',
+  'a11y.removeFavorite': 'සුරැකි ස්ථානය ඉවත් කරන්න',
+  'a11y.share': 'බෙදාගන්න',
+  'a11y.back': 'ආපසු',
+  'a11y.search': 'සොයන්න',
+  'a11y.editFavorites': 'සුරැකි ස්ථාන සංස්කරණය කරන්න',
+  'a11y.moveFavoriteUp': '{name} ඉහළට ගෙන යන්න',
+  'a11y.moveFavoriteDown': '{name} පහළට ගෙන යන්න',
+  'a11y.removeNamedFavorite': '{name} ඉවත් කරන්න',
+  'a11y.addComparison': '{name} සංසන්දනයට එක් කරන්න',
+  'a11y.removeComparison': '{name} සංසන්දනයෙන් ඉවත් කරන්න',
+  'a11y.page': 'ස්ථාන {count} න් {index}',
+  'a11y.showDetails': 'දූෂක විස්තරය පෙන්වයි',
+};
@@ -0,0 +1,267 @@
+import type { Catalog } from '@/i18n';
+
+export const ta: Catalog = {
+  'common.done': 'முடிந்தது',
+  'common.edit': 'திருத்து',
+  'common.on': 'இயக்கு',
+  'common.off': 'நிறுத்து',
+
+  'search.placeholder': 'நகரத்தைத் தேடுங்கள்...',
+
+  'weather.loading': 'வானிலை தரவைப் பெறுகிறது...',
+  'weather.permissionDenied': 'அனுமதி மறுக்கப்பட்டது. {city} வானிலை காட்டப்படுகிறது.',
+  'weather.localTime': 'உள்ளூர் நேரம் {time}',
+  'weather.updated': 'புதுப்பிக்கப்பட்டது {age}',
+
+  'errors.invalidKey': 'வானிலை சேவை இந்தச் செயலியின் API விசையை ஏற்கவில்லை. .env கோப்பில் உள்ள விசையைச் சரிபார்க்கவும் அல்லது செயலியைப் புதுப்பிக்கவும்.',
+  'errors.rateLimited': 'இப்போது வானிலை கோரிக்கைகள் அதிகம். ஒரு நிமிடம் காத்திருந்து மீண்டும் முயற்சிக்கவும்.',
+  'errors.offline': 'இணைய இணைப்பு இல்லை. Wi-Fi அல்லது மொபைல் தரவைச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.',
+  'errors.timeout': 'வானிலை சேவை பதிலளிக்க அதிக நேரம் எடுத்தது. மீண்டும் முயற்சிக்கவும்.',
+  'errors.server': 'வானிலை சேவையில் சிக்கல் உள்ளது. சில நிமிடங்களில் மீண்டும் முயற்சிக்கவும்.',
+  'errors.notFound': 'அந்த இடத்தைக் கண்டறிய முடியவில்லை. எழுத்துப்பிழையைச் சரிபார்க்கவும் அல்லது அருகிலுள்ள நகரத்தை முயற்சிக்கவும்.',
+  'errors.location': 'உங்கள் இருப்பிடத்தைப் பெற முடியவில்லை. இருப்பிடச் சேவைகள் இயக்கத்தில் உள்ளதா எனப் பார்த்து மீண்டும் முயற்சிக்கவும்.',
+  'errors.unknown': 'வானிலையை ஏற்றும்போது ஏதோ தவறு ஏற்பட்டது. மீண்டும் முயற்சிக்கவும்.',
+  'errors.retry': 'மீண்டும் முயற்சி',
+
+  'share.message': '{location} வானிலை: {url}',
+
+  'cards.feelsLike': 'உணரப்படும் வெப்பநிலை',
+  'cards.humidity': 'ஈரப்பதம்',
+  'cards.windSpeed': 'காற்றின் வேகம்',
+  'cards.pressure': 'காற்றழுத்தம்',
+  'cards.visibility': 'தெரிவுநிலை',
+  'cards.sunrise': 'சூரிய உதயம்',
+
+  'forecast.daily': '5 நாள் முன்னறிவிப்பு',
+  'forecast.hourly': 'அடுத்த 48 மணிநேரம்',
+
+  'stale.offline': 'ஆஃப்லைன் · கடைசியாகப் புதுப்பிக்கப்பட்டது {age}',
+  'stale.updating': 'புதுப்பிக்கிறது… · கடைசியாகப் புதுப்பிக்கப்பட்டது {age}',
+
+  'age.justNow': 'இப்போது',
+  'age.minute': '{count} நிமிடத்திற்கு முன்பு',
+  'age.minutes': '{count} நிமிடங்களுக்கு முன்பு',
+  'age.hour': '{count} மணிநேரத்திற்கு முன்பு',
+  'age.hours': '{count} மணிநேரத்திற்கு முன்பு',
+  'age.day': '{count} நாளுக்கு முன்பு',
+  'age.days': '{count} நாட்களுக்கு முன்பு',
+
+  'alerts.title': 'வானிலை எச்சரிக்கைகள்',
+  'alerts.heavyRain': 'கனமழை, 3 மணி நேரத்தில் {amount} வரை',
+  'alerts.strongWind': 'பலத்த காற்று, {speed} வரை',
+  'alerts.thunderstorm': 'இடியுடன் கூடிய மழை, வாய்ப்பு {chance}',
+  'alerts.extremeHeat': 'கடும் வெப்பம், {temperature} போல் உணரப்படும்',
+  'alerts.window': '{day} {start} – {end}',
+
+  'airQuality.title': 'காற்றின் தரம்',
+  'airQuality.index': 'AQI {value}',
+  'airQuality.good': 'நல்லது',
+  'airQuality.fair': 'பரவாயில்லை',
+  'airQuality.moderate': 'மிதமானது',
+  'airQuality.poor': 'மோசமானது',
+  'airQuality.veryPoor': 'மிக மோசமானது',
+  'airQuality.pollutants': 'மாசுபடுத்திகள்',
+  'airQuality.hourly': 'மணிநேர முன்னறிவிப்பு',
+
+  'uv.title': 'UV குறியீடு (மதிப்பீடு)',
+  'uv.now': 'இப்போது UV {value} · {level}',
+  'uv.peak': 'உச்சம் {value}, {time} மணிக்கு',
+  'uv.window': 'பாதுகாப்பு தேவை {start} – {end}',
+  'uv.noWindow': 'இன்று சூரிய பாதுகாப்பு தேவையில்லை',
+  'uv.low': 'குறைவு',
+  'uv.moderate': 'மிதமானது',
+  'uv.high': 'அதிகம்',
+  'uv.veryHigh': 'மிக அதிகம்',
+  'uv.extreme': 'தீவிரம்',
+  'uv.advice.low': 'பாதுகாப்பு தேவையில்லை. பிரகாசமான நாட்களில் கறுப்புக் கண்ணாடி அணியுங்கள்.',
+  'uv.advice.moderate': 'நண்பகலில் நிழலில் இருங்கள், தொப்பியும் SPF 30+ சன்ஸ்கிரீனும் பயன்படுத்துங்கள்.',
+  'uv.advice.high': 'உச்ச நேரத்தில் வெயிலில் இருப்பதைக் குறையுங்கள். தொப்பி, கறுப்புக் கண்ணாடி அணிந்து SPF 30+ சன்ஸ்கிரீனை 2 மணி நேரத்துக்கு ஒருமுறை பூசுங்கள்.',
+  'uv.advice.veryHigh': 'உச்ச நேரத்தில் வெயிலைத் தவிருங்கள். உடலை மூடி, தொப்பி அணிந்து SPF 50+ சன்ஸ்கிரீனை 2 மணி நேரத்துக்கு ஒருமுறை பூசுங்கள்.',
+  'uv.advice.extreme': 'உச்ச நேரத்தில் வெளியே செல்வதைத் தவிருங்கள். முழுமையாக மூடி, அகலத் தொப்பி அணிந்து SPF 50+ ஐ 2 மணி நேரத்துக்கு ஒருமுறை பூசுங்கள்.',
+
+  'favorites.title': 'சேமித்த இடங்கள்',
+  'favorites.empty': 'தேடிய நகரத்தை இங்கே சேமிக்க ☆ ஐத் தட்டவும்.',
+
+  'districts.title': 'இலங்கை மேலோட்டம்',
+  'districts.sortName': 'பெயர்',
+  'districts.sortTemperature': 'வெப்பநிலை',
+  'districts.sortRain': 'மழை',
+  'districts.unavailable': 'தரவு இல்லை',
+
+  'compare.title': 'ஒப்பிடு',
+  'compare.intro': 'அருகருகே பார்க்க இரண்டு முதல் நான்கு இடங்களைத் தேர்ந்தெடுங்கள். வேறுபாடுகள் முதல் இடத்திலிருந்து கணக்கிடப்படும்.',
+  'compare.add': 'இடத்தைச் சேர்',
+  'compare.needMore': 'ஒப்பிட குறைந்தது இரண்டு இடங்களைச் சேர்க்கவும்.',
+  'compare.now': 'இப்போது',
+  'compare.daily': 'தினசரி முன்னறிவிப்பு',
+  'compare.baseline': 'அடிப்படை',
+  'compare.rainChance': 'மழை வாய்ப்பு (24 மணி)',
+  'compare.rainAmount': 'மழைப்பொழிவு (24 மணி)',
+  'compare.high': 'அதிகபட்சம்',
+  'compare.low': 'குறைந்தபட்சம்',
+  'compare.dayRainChance': 'மழை வாய்ப்பு',
+  'compare.dayRainAmount': 'மழைப்பொழிவு',
+  'compare.warmer': 'வெப்பம் அதிகம்',
+  'compare.colder': 'குளிர் அதிகம்',
+  'compare.wetter': 'ஈரம் அதிகம்',
+  'compare.drier': 'வறட்சி அதிகம்',
+  'compare.windier': 'காற்று அதிகம்',
+  'compare.calmer': 'காற்று குறைவு',
+
+  'history.title': 'வரலாறு',
+  'history.week': 'கடந்த 7 நாட்கள்',
+  'history.month': 'கடந்த 30 நாட்கள்',
+  'history.thisWeek': 'இந்த வாரம்',
+  'history.lastWeek': 'கடந்த வாரம்',
+  'history.average': 'சராசரி {mean}',
+  'history.weekSummary': 'சராசரி {mean} · கடந்த வாரம் {previous} ({delta})',
+  'history.rangeSummary': 'சராசரி {mean} · வரம்பு {min} – {max}',
+  'history.noData': 'இந்தக் காலத்தில் அவதானிப்புகள் இல்லை',
+  'history.empty': 'இங்கே வானிலையைப் பார்க்கும் ஒவ்வொரு முறையும் வரலாறு சேர்கிறது. சில மணி நேரத்தில் மீண்டும் வாருங்கள்.',
+
+  'map.title': 'வானிலை வரைபடம்',
+  'map.hint': 'எந்த இடத்தின் வானிலையையும் காண அதை நீண்ட நேரம் அழுத்துங்கள்',
+  'map.precipitation': 'மழை',
+  'map.clouds': 'மேகங்கள்',
+  'map.temperature': 'வெப்பநிலை',
+  'map.wind': 'காற்று',
+
+  'preferences.language': 'மொழி',
+  'preferences.systemLanguage': 'கணினி',
+  'preferences.notifications': 'அறிவிப்புகள்',
+  'preferences.rainThreshold': 'கனமழை (3 மணி நேரத்துக்கு)',
+  'preferences.windThreshold': 'பலத்த காற்று',
+  'preferences.heatThreshold': 'கடும் வெப்பம் (உணரப்படும்)',
+  'preferences.thunderstormAlerts': 'இடியுடன் கூடிய மழை',
+  'settings.title': 'அமைப்புகள்',
+  'settings.location': 'இருப்பிடம்',
+  'settings.useGps': 'தற்போதைய இருப்பிடத்தைப் பயன்படுத்து',
+  'settings.defaultLocation': 'இயல்புநிலை இருப்பிடம்',
+  'settings.defaultLocationHint': 'தற்போதைய இருப்பிடம் முடக்கப்பட்டிருக்கும்போது அல்லது கிடைக்காதபோது காட்டப்படும்.',
+  'settings.refreshInterval': 'தானாகப் புதுப்பி',
+  'settings.minutes': '{count} நிமி.',
+  'settings.appearance': 'தோற்றம்',
+  'settings.theme': 'தீம்',
+  'settings.themeSystem': 'கணினி',
+  'settings.themeLight': 'வெளிர்',
+  'settings.themeDark': 'இருண்ட',
+  'settings.themeHighContrast': 'உயர் மாறுபாடு',
+  'settings.timeFormat': 'நேர வடிவம்',
+  'settings.timeSystem': 'கணினி',
+  'settings.time12': '12 மணி நேரம்',
+  'settings.time24': '24 மணி நேரம்',
+  'settings.cards': 'அட்டைகள்',
+  'settings.units': 'அலகுகள்',
+
+  'units.temperature': 'வெப்பநிலை',
+  'units.windSpeed': 'காற்றின் வேகம்',
+  'units.pressure': 'காற்றழுத்தம்',
+  'units.distance': 'தூரம் & மழைப்பொழிவு',
+
+  'debug.cacheTitle': 'பதில் தற்காலிகச் சேமிப்பு',
+  'debug.cacheStats': 'கிடைத்தவை {hits} · தவறியவை {misses} · பகிர்ந்தவை {shared} · பழையவை {stale}',
+
+  'condition.Clear': 'தெளிவு',
+  'condition.Clouds': 'மேகமூட்டம்',
+  'condition.Rain': 'மழை',
+  'condition.Drizzle': 'தூறல்',
+  'condition.Thunderstorm': 'இடியுடன் கூடிய மழை',
+  'condition.Snow': 'பனி',
+  'condition.Mist': 'மூடுபனி',
+  'condition.Smoke': 'புகை',
+  'condition.Haze': 'புகைமூட்டம்',
+  'condition.Dust': 'தூசி',
+  'condition.Fog': 'அடர் மூடுபனி',
+  'condition.Sand': 'மணல்',
+  'condition.Ash': 'சாம்பல்',
+  'condition.Squall': 'சூறைக்காற்று',
+  'condition.Tornado': 'சுழற்காற்று',
+
+  'condition.200': 'லேசான மழையுடன் இடியுடன் கூடிய புயல்',
+  'condition.201': 'மழையுடன் இடியுடன் கூடிய புயல்',
+  'condition.202': 'கனமழையுடன் இடியுடன் கூடிய புயல்',
+  'condition.210': 'லேசான இடியுடன் கூடிய புயல்',
+  'condition.211': 'இடியுடன் கூடிய புயல்',
+  'condition.212': 'கடுமையான இடியுடன் கூடிய புயல்',
+  'condition.221': 'சீரற்ற இடியுடன் கூடிய புயல்',
+  'condition.230': 'லேசான தூறலுடன் இடியுடன் கூடிய புயல்',
+  'condition.231': 'தூறலுடன் இடியுடன் கூடிய புயல்',
+  'condition.232': 'கடும் தூறலுடன் இடியுடன் கூடிய புயல்',
+  'condition.300': 'லேசான தூறல்',
+  'condition.301': 'தூறல்',
+  'condition.302': 'கடும் தூறல்',
+  'condition.310': 'லேசான தூறலும் மழையும்',
+  'condition.311': 'தூறலும் மழையும்',
+  'condition.312': 'கடும் தூறலும் மழையும்',
+  'condition.313': 'மழைப் பொழிவும் தூறலும்',
+  'condition.314': 'கடும் மழைப் பொழிவும் தூறலும்',
+  'condition.321': 'தூறல் பொழிவு',
+  'condition.500': 'லேசான மழை',
+  'condition.501': 'மிதமான மழை',
+  'condition.502': 'கனமழை',
+  'condition.503': 'மிகக் கனமழை',
+  'condition.504': 'அதி தீவிர மழை',
+  'condition.511': 'உறைபனி மழை',
+  'condition.520': 'லேசான மழைப் பொழிவு',
+  'condition.521': 'மழைப் பொழிவு',
+  'condition.522': 'கடும் மழைப் பொழிவு',
+  'condition.531': 'சீரற்ற மழைப் பொழிவு',
+  'condition.600': 'லேசான பனி',
+  'condition.601': 'பனி',
+  'condition.602': 'கடும் பனி',
+  'condition.611': 'பனிக்கட்டி மழை',
+  'condition.612': 'லேசான பனிக்கட்டி மழைப் பொழிவு',
+  'condition.613': 'பனிக்கட்டி மழைப் பொழிவு',
+  'condition.615': 'லேசான மழையும் பனியும்',
+  'condition.616': 'மழையும் பனியும்',
+  'condition.620': 'லேசான பனிப் பொழிவு',
+  'condition.621': 'பனிப் பொழிவு',
+  'condition.622': 'கடும் பனிப் பொழிவு',
+  'condition.701': 'மூடுபனி',
+  'condition.711': 'புகை',
+  'condition.721': 'புகைமூட்டம்',
+  'condition.731': 'மணல் மற்றும் தூசிச் சுழல்கள்',
+  'condition.741': 'அடர் மூடுபனி',
+  'condition.751': 'மணல்',
+  'condition.761': 'தூசி',
+  'condition.762': 'எரிமலைச் சாம்பல்',
+  'condition.771': 'சூறைக்காற்று',
+  'condition.781': 'சுழற்காற்று',
+  'condition.800': 'தெளிவான வானம்',
+  'condition.801': 'சில மேகங்கள்',
+  'condition.802': 'சிதறிய மேகங்கள்',
+  'condition.803': 'உடைந்த மேகங்கள்',
+  'condition.804': 'முழு மேகமூட்டம்',
+
+  'a11y.degrees': '{value} டிகிரி',
+  'a11y.percent': '{value} சதவீதம்',
+  'a11y.speed.ms': 'வினாடிக்கு {value} மீட்டர்',
+  'a11y.speed.kmh': 'மணிக்கு {value} கிலோமீட்டர்',
+  'a11y.speed.mph': 'மணிக்கு {value} மைல்',
+  'a11y.speed.knots': '{value} நாட்',
+  'a11y.speed.beaufort': 'பியூஃபோர்ட் விசை {value}',
+  'a11y.pressure.hPa': '{value} ஹெக்டோபாஸ்கல்',
+  'a11y.pressure.inHg': '{value} அங்குல பாதரசம்',
+  'a11y.pressure.mmHg': '{value} மில்லிமீட்டர் பாதரசம்',
+  'a11y.distance.km': '{value} கிலோமீட்டர்',
+  'a11y.distance.mi': '{value} மைல்',
+  'a11y.precipitation.mm': '{value} மில்லிமீட்டர்',
+  'a11y.precipitation.in': '{value} அங்குலம்',
+  'a11y.micrograms': 'ஒரு கன மீட்டருக்கு {value} மைக்ரோகிராம்',
+  'a11y.currentConditions': '{temperature}, {condition}',
+  'a11y.forecastDay': '{day}, {condition}, அதிகபட்சம் {high}, குறைந்தபட்சம் {low}, மழை வாய்ப்பு {rain}',
+  'a11y.forecastHour': '{time}, {condition}, {temperature}, மழை வாய்ப்பு {rain}',
+  'a11y.addFavorite': 'இருப்பிடத்தைச் சேமி',
+  'a11y.removeFavorite': 'சேமித்த இருப்பிடத்தை நீக்கு',
+  'a11y.share': 'பகிர்',
+  'a11y.back': 'பின் செல்',
+  'a11y.search': 'தேடு',
+  'a11y.editFavorites': 'சேமித்த இருப்பிடங்களைத் திருத்து',
+  'a11y.moveFavoriteUp': '{name} ஐ மேலே நகர்த்து',
+  'a11y.moveFavoriteDown': '{name} ஐ கீழே நகர்த்து',
+  'a11y.removeNamedFavorite': '{name} ஐ நீக்கு',
+  'a11y.addComparison': '{name} ஐ ஒப்பீட்டில் சேர்',
+  'a11y.removeComparison': '{name} ஐ ஒப்பீட்டிலிருந்து நீக்கு',
+  'a11y.page': '{count} இல் {index} ஆவது இருப்பிடம்',
+  'a11y.showDetails': 'மாசுபடுத்திகளின் விவரத்தைக் காட்டும்',
+};
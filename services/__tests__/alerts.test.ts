@@ -0,0 +1,77 @@
+import * as Notifications from 'expo-notifications';
+
+import { notifyNewAlerts } from '@/services/alerts';
+import { NOW, STEP } from '@/utils/__fixtures__/forecast';
+import { WeatherAlert } from '@/utils/alerts';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+  getPermissionsAsync: jest.fn(),
+  requestPermissionsAsync: jest.fn(),
+  scheduleNotificationAsync: jest.fn(),
+}));
+
+const getPermissions = Notifications.getPermissionsAsync as jest.Mock;
+const schedule = Notifications.scheduleNotificationAsync as jest.Mock;
+
+const alert = (kind: WeatherAlert['kind'], start: number, end: number = start + STEP): WeatherAlert => ({
+  kind,
+  start,
+  end,
+  peak: 1,
+});
+
+const toNotification = (item: WeatherAlert) => ({ title: item.kind, body: String(item.start) });
+
+/** Titles of the notifications raised by one call. */
+const notify = async (location: string, alerts: WeatherAlert[], now: number = NOW) => {
+  schedule.mockClear();
+  await notifyNewAlerts(location, alerts, toNotification, now);
+  return schedule.mock.calls.map(([request]) => request.content.title);
+};
+
+beforeEach(() => {
+  getPermissions.mockResolvedValue({ granted: true, canAskAgain: true });
+  schedule.mockResolvedValue('id');
+});
+
+describe('notifyNewAlerts', () => {
+  it('notifies each new alert once', async () => {
+    const alerts = [alert('heavyRain', NOW), alert('strongWind', NOW + STEP)];
+    expect(await notify('dedupe', alerts)).toEqual(['heavyRain', 'strongWind']);
+    expect(await notify('dedupe', alerts)).toEqual([]);
+  });
+
+  it('stays quiet when a refreshed forecast shifts an alert it already raised', async () => {
+    expect(await notify('shift', [alert('heavyRain', NOW, NOW + 2 * STEP)])).toEqual(['heavyRain']);
+    expect(await notify('shift', [alert('heavyRain', NOW + STEP, NOW + 3 * STEP)])).toEqual([]);
+    // The record was stretched to the shifted end, so the lingering event is still covered.
+    expect(await notify('shift', [alert('heavyRain', NOW + 2 * STEP, NOW + 4 * STEP)])).toEqual([]);
+  });
+
+  it('notifies again for a stretch that starts after the previous one ended', async () => {
+    expect(await notify('later', [alert('strongWind', NOW)])).toEqual(['strongWind']);
+    expect(await notify('later', [alert('strongWind', NOW + STEP)])).toEqual(['strongWind']);
+  });
+
+  it('keeps locations and kinds apart', async () => {
+    expect(await notify('colombo', [alert('thunderstorm', NOW)])).toEqual(['thunderstorm']);
+    expect(await notify('kandy', [alert('thunderstorm', NOW)])).toEqual(['thunderstorm']);
+    expect(await notify('colombo', [alert('extremeHeat', NOW)])).toEqual(['extremeHeat']);
+  });
+
+  it('forgets alerts once they are over', async () => {
+    expect(await notify('expired', [alert('heavyRain', NOW)])).toEqual(['heavyRain']);
+    // Still in progress, so it would overlap the old record if that were kept past its end.
+    expect(await notify('expired', [alert('heavyRain', NOW + STEP - 60)], NOW + STEP)).toEqual(['heavyRain']);
+  });
+
+  it('schedules nothing without notification permission', async () => {
+    getPermissions.mockResolvedValue({ granted: false, canAskAgain: false });
+    expect(await notify('denied', [alert('heavyRain', NOW)])).toEqual([]);
+  });
+});
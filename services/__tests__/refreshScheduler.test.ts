@@ -0,0 +1,125 @@
+import { Clock, createRefreshScheduler } from '@/services/refreshScheduler';
+
+const MINUTE = 60 * 1000;
+
+/** A clock that only moves when told to, firing due timers in order. */
+function createFakeClock(start: number = 0) {
+  let now = start;
+  let nextHandle = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout(callback, ms) {
+      const handle = nextHandle++;
+      timers.set(handle, { at: now + ms, callback });
+      return handle;
+    },
+    clearTimeout(handle) {
+      timers.delete(handle as number);
+    },
+  };
+
+  const advance = (ms: number) => {
+    const until = now + ms;
+    for (;;) {
+      const due = [...timers.entries()]
+        .filter(([, timer]) => timer.at <= until)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+      const [handle, timer] = due;
+      timers.delete(handle);
+      now = timer.at;
+      timer.callback();
+    }
+    now = until;
+  };
+
+  return { clock, advance, pending: () => timers.size };
+}
+
+const setup = () => {
+  const fake = createFakeClock();
+  const onRefresh = jest.fn();
+  const scheduler = createRefreshScheduler({
+    intervalMs: 15 * MINUTE,
+    resumeAfterMs: 5 * MINUTE,
+    onRefresh,
+    clock: fake.clock,
+  });
+  return { ...fake, onRefresh, scheduler };
+};
+
+describe('createRefreshScheduler', () => {
+  it('does nothing until it is brought to the foreground', () => {
+    const { advance, onRefresh } = setup();
+    advance(60 * MINUTE);
+    expect(onRefresh).not.toHaveBeenCalled();
+  });
+
+  it('refreshes once per interval in the foreground', () => {
+    const { advance, onRefresh, scheduler } = setup();
+    scheduler.setForeground(true);
+    advance(15 * MINUTE - 1);
+    expect(onRefresh).not.toHaveBeenCalled();
+    advance(1);
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+    advance(30 * MINUTE);
+    expect(onRefresh).toHaveBeenCalledTimes(3);
+  });
+
+  it('counts the interval from the last manual refresh', () => {
+    const { advance, onRefresh, scheduler } = setup();
+    scheduler.setForeground(true);
+    advance(10 * MINUTE);
+    scheduler.markRefreshed();
+    advance(14 * MINUTE);
+    expect(onRefresh).not.toHaveBeenCalled();
+    advance(MINUTE);
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes at once on resume when the data is past the stale threshold', () => {
+    const { advance, onRefresh, scheduler } = setup();
+    advance(5 * MINUTE);
+    scheduler.setForeground(true);
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+    advance(15 * MINUTE);
+    expect(onRefresh).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits out the rest of the interval on resume while the data is still fresh', () => {
+    const { advance, onRefresh, scheduler } = setup();
+    advance(4 * MINUTE);
+    scheduler.setForeground(true);
+    expect(onRefresh).not.toHaveBeenCalled();
+    advance(11 * MINUTE - 1);
+    expect(onRefresh).not.toHaveBeenCalled();
+    advance(1);
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops in the background and picks up again on return', () => {
+    const { advance, onRefresh, pending, scheduler } = setup();
+    scheduler.setForeground(true);
+    advance(10 * MINUTE);
+    scheduler.setForeground(false);
+    expect(pending()).toBe(0);
+    advance(60 * MINUTE);
+    expect(onRefresh).not.toHaveBeenCalled();
+    scheduler.setForeground(true);
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores further calls once disposed', () => {
+    const { advance, onRefresh, pending, scheduler } = setup();
+    scheduler.setForeground(true);
+    scheduler.dispose();
+    expect(pending()).toBe(0);
+    scheduler.markRefreshed();
+    scheduler.setForeground(false);
+    scheduler.setForeground(true);
+    advance(60 * MINUTE);
+    expect(onRefresh).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import * as Notifications from 'expo-notifications';
+
+import { createPersistedStore } from '@/services/persistedStore';
+import { AlertKind, WeatherAlert } from '@/utils/alerts';
+
+/** An alert a notification has already gone out for. */
+interface NotifiedAlert {
+  /** Cache key of the location the alert belongs to. */
+  location: string;
+  kind: AlertKind;
+  /** End of the alerted stretch, unix seconds; the record is dropped after this. */
+  end: number;
+}
+
+export interface AlertNotification {
+  title: string;
+  body: string;
+}
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+const notifiedAlertsStore = createPersistedStore<NotifiedAlert[]>('notified-alerts', []);
+
+const ensurePermission = async () => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted || !current.canAskAgain) return current.granted;
+  return (await Notifications.requestPermissionsAsync()).granted;
+};
+
+/**
+ * Raises a local notification for each alert at `location` that has not been
+ * notified yet. Forecasts shift between refreshes, so an alert counts as
+ * already notified when it overlaps a previous one of the same kind; the
+ * stored record is stretched to cover it so a lingering event stays quiet.
+ */
+export async function notifyNewAlerts(
+  location: string,
+  alerts: WeatherAlert[],
+  toNotification: (alert: WeatherAlert) => AlertNotification,
+  now: number = Date.now() / 1000
+) {
+  await notifiedAlertsStore.ready;
+
+  const stored = notifiedAlertsStore.get();
+  const records = stored.filter((record) => record.end > now).map((record) => ({ ...record }));
+  const fresh: WeatherAlert[] = [];
+  alerts.forEach((alert) => {
+    const previous = records.find(
+      (record) => record.location === location && record.kind === alert.kind && alert.start < record.end
+    );
+    if (previous) {
+      previous.end = Math.max(previous.end, alert.end);
+    } else {
+      records.push({ location, kind: alert.kind, end: alert.end });
+      fresh.push(alert);
+    }
+  });
+  if (JSON.stringify(records) !== JSON.stringify(stored)) notifiedAlertsStore.set(records);
+
+  if (fresh.length === 0 || !(await ensurePermission().catch(() => false))) return;
+  await Promise.all(
+    fresh.map((alert) =>
+      Notifications.scheduleNotificationAsync({ content: toNotification(alert), trigger: null }).catch(() => {})
+    )
+  );
+}
@@ -0,0 +1,28 @@
+import { favoriteIdFor, FavoriteLocation } from '@/services/favorites';
+import { createPersistedStore } from '@/services/persistedStore';
+import { Place } from '@/services/weather';
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 4;
+
+/** Hill country against the coast, the comparison people make most. */
+const DEFAULT_COMPARED: FavoriteLocation[] = [
+  { id: favoriteIdFor({ lat: 6.9271, lon: 79.8612 }), name: 'Colombo', lat: 6.9271, lon: 79.8612 },
+  { id: favoriteIdFor({ lat: 6.9497, lon: 80.7891 }), name: 'Nuwara Eliya', lat: 6.9497, lon: 80.7891 },
+];
+
+/** Places on the comparison screen, in column order; the first is the baseline. */
+export const comparisonStore = createPersistedStore<FavoriteLocation[]>('comparison', DEFAULT_COMPARED);
+
+export function addComparedLocation({ name, lat, lon }: Pick<Place, 'name' | 'lat' | 'lon'>) {
+  const id = favoriteIdFor({ lat, lon });
+  comparisonStore.set((locations) =>
+    locations.length >= MAX_COMPARED || locations.some((location) => location.id === id)
+      ? locations
+      : [...locations, { id, name, lat, lon }]
+  );
+}
+
+export function removeComparedLocation(id: string) {
+  comparisonStore.set((locations) => locations.filter((location) => location.id !== id));
+}
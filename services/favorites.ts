@@ -0,0 +1,41 @@
+import { createPersistedStore } from '@/services/persistedStore';
+import { Coordinates, CurrentConditions, LocationQuery } from '@/services/weather';
+
+export interface FavoriteLocation extends Coordinates {
+  id: string;
+  name: string;
+}
+
+export const favoritesStore = createPersistedStore<FavoriteLocation[]>('favorites', []);
+
+export const favoriteIdFor = ({ lat, lon }: Coordinates) => `${lat.toFixed(2)},${lon.toFixed(2)}`;
+
+export const toLocationQuery = ({ lat, lon, name }: FavoriteLocation): LocationQuery => ({ lat, lon, name });
+
+/** Saves the place a report was fetched for; returns the favorite's id. */
+export function addFavorite(current: CurrentConditions) {
+  const id = favoriteIdFor(current.coords);
+  favoritesStore.set((favorites) =>
+    favorites.some((favorite) => favorite.id === id)
+      ? favorites
+      : [...favorites, { id, name: current.locationName, ...current.coords }]
+  );
+  return id;
+}
+
+export function removeFavorite(id: string) {
+  favoritesStore.set((favorites) => favorites.filter((favorite) => favorite.id !== id));
+}
+
+/** Moves a favorite one slot up (`-1`) or down (`1`) in the list. */
+export function moveFavorite(id: string, offset: -1 | 1) {
+  favoritesStore.set((favorites) => {
+    const index = favorites.findIndex((favorite) => favorite.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= favorites.length) return favorites;
+
+    const reordered = [...favorites];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+  });
+}
@@ -0,0 +1,28 @@
+import { createPersistedStore, PersistedStore } from '@/services/persistedStore';
+import { Coordinates, CurrentConditions } from '@/services/weather';
+import { weatherCacheKey } from '@/services/weatherCache';
+import { appendObservation, Observation, toObservation } from '@/utils/history';
+
+const stores = new Map<string, PersistedStore<Observation[]>>();
+
+/** Same ~10 km rounding as the weather cache, so a GPS fix and a saved place share a series. */
+export const historyKeyFor = ({ lat, lon }: Coordinates) => weatherCacheKey({ lat, lon });
+
+/** Observations recorded near a place, oldest first; each place is stored under its own key. */
+export function historyStore(key: string) {
+  let store = stores.get(key);
+  if (!store) {
+    store = createPersistedStore<Observation[]>(`history:${key}`, []);
+    stores.set(key, store);
+  }
+  return store;
+}
+
+export async function recordObservation(current: CurrentConditions, now: number = Date.now() / 1000) {
+  const store = historyStore(historyKeyFor(current.coords));
+  // A write before hydration would replace the stored series rather than extend it.
+  await store.ready;
+  const series = store.get();
+  const next = appendObservation(series, toObservation(current), now);
+  if (next !== series) store.set(next);
+}
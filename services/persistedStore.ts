@@ -0,0 +1,53 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface PersistedStore<T> {
+  get(): T;
+  set(value: T | ((current: T) => T)): void;
+  subscribe(listener: () => void): () => void;
+  /** Resolves once the stored value has been read back from the device. */
+  ready: Promise<void>;
+}
+
+/**
+ * A tiny observable value mirrored to AsyncStorage under `key`. Reads are
+ * synchronous so screens can subscribe with `useStore`; writes are persisted
+ * in the background.
+ */
+export function createPersistedStore<T>(
+  key: string,
+  initialValue: T,
+  revive: (stored: T) => T = (stored) => stored
+): PersistedStore<T> {
+  let value = initialValue;
+  let dirty = false;
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach((listener) => listener());
+
+  const ready = AsyncStorage.getItem(key)
+    .then((raw) => {
+      // A write that happened before hydration finished wins over the stored copy.
+      if (raw && !dirty) {
+        value = revive(JSON.parse(raw) as T);
+        emit();
+      }
+    })
+    .catch(() => {});
+
+  return {
+    get: () => value,
+    set(next) {
+      value = typeof next === 'function' ? (next as (current: T) => T)(value) : next;
+      dirty = true;
+      emit();
+      AsyncStorage.setItem(key, JSON.stringify(value)).catch(() => {});
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    ready,
+  };
+}
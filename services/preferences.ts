@@ -0,0 +1,104 @@
+import { LanguagePreference } from '@/i18n';
+import { createPersistedStore } from '@/services/persistedStore';
+import { Coordinates } from '@/services/weather';
+import { AlertThresholds, DEFAULT_ALERT_THRESHOLDS } from '@/utils/alerts';
+import { TimeFormat } from '@/utils/time';
+import { METRIC_UNITS, UnitPreferences } from '@/utils/units';
+
+export type ThemePreference = 'system' | 'light' | 'dark' | 'highContrast';
+
+/** Optional sections of the weather page, in the order they appear. */
+export type WeatherCard =
+  | 'hourly'
+  | 'daily'
+  | 'airQuality'
+  | 'uvIndex'
+  | 'feelsLike'
+  | 'humidity'
+  | 'windSpeed'
+  | 'pressure'
+  | 'visibility'
+  | 'sunrise';
+
+export const WEATHER_CARDS: WeatherCard[] = [
+  'hourly',
+  'daily',
+  'airQuality',
+  'uvIndex',
+  'feelsLike',
+  'humidity',
+  'windSpeed',
+  'pressure',
+  'visibility',
+  'sunrise',
+];
+
+export interface DefaultLocation extends Coordinates {
+  name: string;
+}
+
+export interface Preferences {
+  units: UnitPreferences;
+  /** `system` follows the device language. */
+  language: LanguagePreference;
+  alertThresholds: AlertThresholds;
+  /** Whether new alerts also raise a local notification. */
+  alertNotifications: boolean;
+  /** Shown on the first page when GPS is turned off or permission is denied. */
+  defaultLocation: DefaultLocation;
+  useGps: boolean;
+  /** Minutes between automatic refreshes while the app is open; 0 turns them off. */
+  refreshIntervalMinutes: number;
+  theme: ThemePreference;
+  timeFormat: TimeFormat;
+  /** Hidden rather than shown, so cards added in later versions start out visible. */
+  hiddenCards: WeatherCard[];
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  units: METRIC_UNITS,
+  language: 'system',
+  alertThresholds: DEFAULT_ALERT_THRESHOLDS,
+  alertNotifications: true,
+  defaultLocation: { name: 'Colombo', lat: 6.9271, lon: 79.8612 },
+  useGps: true,
+  refreshIntervalMinutes: 30,
+  theme: 'system',
+  timeFormat: 'system',
+  hiddenCards: [],
+};
+
+/** Stored preferences are merged over the defaults so newly added settings get a value. */
+export const preferencesStore = createPersistedStore<Preferences>('preferences', DEFAULT_PREFERENCES, (stored) => ({
+  ...DEFAULT_PREFERENCES,
+  ...stored,
+  units: { ...DEFAULT_PREFERENCES.units, ...stored.units },
+  alertThresholds: { ...DEFAULT_PREFERENCES.alertThresholds, ...stored.alertThresholds },
+}));
+
+export function setPreference<K extends keyof Preferences>(key: K, value: Preferences[K]) {
+  preferencesStore.set((preferences) => ({ ...preferences, [key]: value }));
+}
+
+export function setUnitPreference<K extends keyof UnitPreferences>(key: K, value: UnitPreferences[K]) {
+  preferencesStore.set((preferences) => ({
+    ...preferences,
+    units: { ...preferences.units, [key]: value },
+  }));
+}
+
+export function setAlertThreshold<K extends keyof AlertThresholds>(key: K, value: AlertThresholds[K]) {
+  preferencesStore.set((preferences) => ({
+    ...preferences,
+    alertThresholds: { ...preferences.alertThresholds, [key]: value },
+  }));
+}
+
+export function setCardVisible(card: WeatherCard, visible: boolean) {
+  preferencesStore.set((preferences) => ({
+    ...preferences,
+    hiddenCards: visible
+      ? preferences.hiddenCards.filter((hidden) => hidden !== card)
+      : [...preferences.hiddenCards.filter((hidden) => hidden !== card), card],
+  }));
+}
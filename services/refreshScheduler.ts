@@ -0,0 +1,85 @@
+/** Time source for the scheduler; tests substitute a fake one to step through time. */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface RefreshSchedulerOptions {
+  /** Time between refreshes while in the foreground. */
+  intervalMs: number;
+  /** How old the data may be on returning to the foreground before it is refreshed straight away. */
+  resumeAfterMs: number;
+  onRefresh: () => void;
+  clock?: Clock;
+}
+
+export interface RefreshScheduler {
+  /** Records that fresh data arrived at `at`, restarting the countdown from there. */
+  markRefreshed(at?: number): void;
+  /** Pauses in the background; on returning, refreshes at once if the data is old enough. */
+  setForeground(foreground: boolean): void;
+  dispose(): void;
+}
+
+/**
+ * Calls `onRefresh` every `intervalMs` while in the foreground, counting from
+ * the last refresh, whether it was scheduled or not. It starts in the
+ * background, so nothing runs until `setForeground(true)`. A refresh that fails
+ * still restarts the countdown, so failures are retried once per interval.
+ */
+export function createRefreshScheduler({
+  intervalMs,
+  resumeAfterMs,
+  onRefresh,
+  clock = systemClock,
+}: RefreshSchedulerOptions): RefreshScheduler {
+  let lastRefreshAt = clock.now();
+  let foreground = false;
+  let disposed = false;
+  let timer: unknown = null;
+
+  const clear = () => {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+  };
+
+  const fire = () => {
+    timer = null;
+    lastRefreshAt = clock.now();
+    onRefresh();
+    schedule();
+  };
+
+  const schedule = () => {
+    clear();
+    if (!foreground || disposed) return;
+    timer = clock.setTimeout(fire, Math.max(0, lastRefreshAt + intervalMs - clock.now()));
+  };
+
+  return {
+    markRefreshed(at = clock.now()) {
+      lastRefreshAt = at;
+      schedule();
+    },
+    setForeground(next) {
+      if (next === foreground || disposed) return;
+      foreground = next;
+      if (foreground && clock.now() - lastRefreshAt >= resumeAfterMs) {
+        fire();
+      } else {
+        schedule();
+      }
+    },
+    dispose() {
+      disposed = true;
+      clear();
+    },
+  };
+}
@@ -0,0 +1,62 @@
+export interface RequestQueueOptions {
+  /** Most tasks allowed to run at the same time. */
+  concurrency: number;
+  /** Most tasks allowed to start in any rolling 60-second window. */
+  perMinute: number;
+}
+
+export interface RequestQueue {
+  /** Runs `task` once a slot is free and the rate limit allows, resolving with its result. */
+  enqueue<T>(task: () => Promise<T>): Promise<T>;
+}
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * A FIFO queue that caps both how many tasks run at once and how many start
+ * per minute, so a batch of lookups trickles out within the API's rate limit
+ * instead of bursting past it.
+ */
+export function createRequestQueue({ concurrency, perMinute }: RequestQueueOptions): RequestQueue {
+  const waiting: (() => void)[] = [];
+  const startedAt: number[] = [];
+  let running = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const pump = () => {
+    while (waiting.length > 0 && running < concurrency) {
+      const now = Date.now();
+      while (startedAt.length > 0 && startedAt[0] <= now - WINDOW_MS) startedAt.shift();
+      if (startedAt.length >= perMinute) {
+        // Wake up when the oldest start leaves the window.
+        if (!timer) {
+          timer = setTimeout(() => {
+            timer = null;
+            pump();
+          }, startedAt[0] + WINDOW_MS - now);
+        }
+        return;
+      }
+      startedAt.push(now);
+      running += 1;
+      waiting.shift()!();
+    }
+  };
+
+  return {
+    enqueue<T>(task: () => Promise<T>) {
+      return new Promise<T>((resolve, reject) => {
+        waiting.push(() => {
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              running -= 1;
+              pump();
+            });
+        });
+        pump();
+      });
+    },
+  };
+}
@@ -0,0 +1,49 @@
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries?: number;
+  /** Delay cap before the first retry; it doubles for each retry after that. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Whether a failure is worth another attempt. */
+  shouldRetry: (error: unknown) => boolean;
+  /** Abandons the remaining attempts, including one that is waiting to start. */
+  signal?: AbortSignal;
+  /** Source of jitter, in [0, 1). */
+  random?: () => number;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `task` until it succeeds, a failure is not worth retrying, or the
+ * retries run out. Waits use exponential backoff with full jitter, so many
+ * clients failing together do not all come back at the same moment.
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  { retries = 2, baseDelayMs = 500, maxDelayMs = 4000, shouldRetry, signal, random = Math.random }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(e)) throw e;
+      await wait(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt), signal);
+    }
+  }
+}
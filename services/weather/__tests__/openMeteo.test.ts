@@ -0,0 +1,84 @@
+import { cachedGet } from '@/services/weather/http';
+import { openMeteoProvider } from '@/services/weather/openMeteo';
+
+jest.mock('@/services/weather/http', () => ({ cachedGet: jest.fn() }));
+
+const HOUR = 60 * 60;
+/** Local midnight in Colombo, 2025-06-15 00:00 +05:30. */
+const COLOMBO_MIDNIGHT = Date.UTC(2025, 5, 14, 18, 30) / 1000;
+const COLOMBO_OFFSET = 5.5 * HOUR;
+
+/** A day of hourly readings on the location's local hours, as `timezone: 'auto'` returns them. */
+const hourlyResponse = (start: number, utcOffsetSeconds: number, hours: number = 24) => {
+  const series = (value: number) => Array.from({ length: hours }, () => value);
+  return {
+    utc_offset_seconds: utcOffsetSeconds,
+    hourly: {
+      time: Array.from({ length: hours }, (_, index) => start + index * HOUR),
+      temperature_2m: Array.from({ length: hours }, (_, index) => 25 + index / 4),
+      relative_humidity_2m: series(80),
+      apparent_temperature: series(29),
+      precipitation_probability: series(40),
+      precipitation: series(0.5),
+      weather_code: series(61),
+      pressure_msl: series(1009),
+      wind_speed_10m: series(4),
+      cloud_cover: series(75),
+      visibility: series(10000),
+      is_day: series(1),
+    },
+  };
+};
+
+const getForecast = () => openMeteoProvider.getForecast({ lat: 6.93, lon: 79.85, name: 'Colombo' });
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(COLOMBO_MIDNIGHT * 1000);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('openMeteoProvider.getForecast', () => {
+  it('builds 3-hour steps at a half-hour offset such as Sri Lanka', async () => {
+    (cachedGet as jest.Mock).mockResolvedValue(hourlyResponse(COLOMBO_MIDNIGHT, COLOMBO_OFFSET));
+
+    const { entries, timezoneOffset } = await getForecast();
+
+    expect(timezoneOffset).toBe(COLOMBO_OFFSET);
+    expect(entries).toHaveLength(8);
+    expect(entries.map((entry) => entry.time)).toEqual(
+      Array.from({ length: 8 }, (_, index) => COLOMBO_MIDNIGHT + index * 3 * HOUR)
+    );
+  });
+
+  it('aligns steps to local hours that are multiples of three', async () => {
+    // Starts at 01:00 local time, so the first step is the 03:00 one.
+    (cachedGet as jest.Mock).mockResolvedValue(hourlyResponse(COLOMBO_MIDNIGHT + HOUR, COLOMBO_OFFSET));
+
+    const { entries } = await getForecast();
+
+    expect(entries[0].time).toBe(COLOMBO_MIDNIGHT + 3 * HOUR);
+  });
+
+  it('sums and spans the hours within a step', async () => {
+    (cachedGet as jest.Mock).mockResolvedValue(hourlyResponse(COLOMBO_MIDNIGHT, COLOMBO_OFFSET));
+
+    const [first] = (await getForecast()).entries;
+
+    expect(first.precipitation).toBeCloseTo(1.5);
+    expect(first.tempMin).toBe(25);
+    expect(first.tempMax).toBe(25.5);
+    expect(first.precipitationProbability).toBe(0.4);
+    expect(first.condition).toMatchObject({ id: 500, icon: '10d' });
+  });
+
+  it('keeps working at whole-hour offsets', async () => {
+    const utcMidnight = Date.UTC(2025, 5, 15) / 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(utcMidnight * 1000);
+    (cachedGet as jest.Mock).mockResolvedValue(hourlyResponse(utcMidnight, 0));
+
+    expect((await getForecast()).entries).toHaveLength(8);
+  });
+});
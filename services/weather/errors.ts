@@ -0,0 +1,69 @@
+import axios from 'axios';
+
+/**
+ * Why a weather request failed, in terms of what the user can do about it:
+ * - `invalidKey`: the provider rejected the API key (401/403).
+ * - `rateLimited`: the provider's quota is exhausted for now (429).
+ * - `budget`: the app's own per-minute request budget is spent; it refills within a minute.
+ * - `offline`: the request never got a response.
+ * - `timeout`: the provider took longer than the request timeout.
+ * - `server`: the provider failed on its side (5xx).
+ * - `notFound`: the place could not be resolved (404, or no geocoding match).
+ * - `location`: the device could not report its position.
+ * - `unknown`: anything else, including malformed responses.
+ */
+export type WeatherErrorKind =
+  | 'invalidKey'
+  | 'rateLimited'
+  | 'budget'
+  | 'offline'
+  | 'timeout'
+  | 'server'
+  | 'notFound'
+  | 'location'
+  | 'unknown';
+
+/** Failures that may well succeed if the same request is simply made again. */
+const TRANSIENT_KINDS: WeatherErrorKind[] = ['offline', 'timeout', 'server'];
+
+export class WeatherError extends Error {
+  readonly kind: WeatherErrorKind;
+  /** HTTP status of the failed response, when there was one. */
+  readonly status?: number;
+
+  constructor(kind: WeatherErrorKind, message: string, options: { cause?: unknown; status?: number } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'WeatherError';
+    this.kind = kind;
+    this.status = options.status;
+  }
+
+  get transient() {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+const kindForStatus = (status: number): WeatherErrorKind => {
+  if (status === 401 || status === 403) return 'invalidKey';
+  if (status === 404) return 'notFound';
+  if (status === 429) return 'rateLimited';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Classifies any error thrown while loading weather. Cancellations are not
+ * failures and must be checked with `axios.isCancel` before calling this.
+ */
+export function toWeatherError(error: unknown): WeatherError {
+  if (error instanceof WeatherError) return error;
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const { status } = error.response;
+      return new WeatherError(kindForStatus(status), error.message, { cause: error, status });
+    }
+    const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    return new WeatherError(timedOut ? 'timeout' : 'offline', error.message, { cause: error });
+  }
+  return new WeatherError('unknown', error instanceof Error ? error.message : String(error), { cause: error });
+}
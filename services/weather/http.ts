@@ -0,0 +1,241 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios, { CanceledError } from 'axios';
+
+import { WeatherError } from '@/services/weather/errors';
+
+const KEY_PREFIX = 'http-cache:';
+const WINDOW_MS = 60 * 1000;
+/** Oldest response still served when the request budget has run out; also when persisted ones are pruned. */
+const MAX_STALE_MS = 24 * 60 * 60 * 1000;
+const MAX_MEMORY_ENTRIES = 200;
+/** Params that do not change the response, such as credentials. */
+const IGNORED_PARAMS = ['appid'];
+const COORDINATE_PARAMS = ['lat', 'lon', 'latitude', 'longitude'];
+
+export interface RequestBudget {
+  /** Spends one request from the budget; false once the last minute's allowance is used up. */
+  tryTake(): boolean;
+}
+
+/** A per-minute allowance over a rolling window, shared by every endpoint drawing on one API key. */
+export function createRequestBudget(perMinute: number): RequestBudget {
+  const spentAt: number[] = [];
+  return {
+    tryTake() {
+      const now = Date.now();
+      while (spentAt.length > 0 && spentAt[0] <= now - WINDOW_MS) spentAt.shift();
+      if (spentAt.length >= perMinute) return false;
+      spentAt.push(now);
+      return true;
+    },
+  };
+}
+
+export interface CachePolicy {
+  /** How long a response is served without asking the network again. */
+  ttlMs: number;
+  /** Also keep responses on the device, so they survive restarts. */
+  persist?: boolean;
+  /** Allowance that network requests for this endpoint draw from. */
+  budget?: RequestBudget;
+}
+
+export interface GetConfig {
+  params: Record<string, string | number | undefined>;
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+export interface HttpCacheStats {
+  /** Served from memory or the device without a request. */
+  hits: number;
+  /** Went to the network. */
+  misses: number;
+  /** Joined a request already in flight for the same key. */
+  shared: number;
+  /** Served past their TTL because the request budget was spent. */
+  stale: number;
+}
+
+interface CacheEntry {
+  /** Unix milliseconds the response was received at. */
+  storedAt: number;
+  data: unknown;
+}
+
+interface InFlight {
+  key: string;
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting; the request is aborted when the last of them gives up. */
+  waiters: number;
+}
+
+const memory = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlight>();
+
+let stats: HttpCacheStats = { hits: 0, misses: 0, shared: 0, stale: 0 };
+const statsListeners = new Set<() => void>();
+
+const count = (field: keyof HttpCacheStats) => {
+  stats = { ...stats, [field]: stats[field] + 1 };
+  statsListeners.forEach((listener) => listener());
+};
+
+/** Hit and miss counts since launch, for a debug readout; subscribe with `useSyncExternalStore`. */
+export const httpCacheStats = {
+  get: () => stats,
+  subscribe(listener: () => void) {
+    statsListeners.add(listener);
+    return () => {
+      statsListeners.delete(listener);
+    };
+  },
+};
+
+/**
+ * Endpoint plus its params in a stable order, without credentials. Text is
+ * compared case-insensitively and coordinates to about 10 m.
+ */
+const cacheKeyFor = (url: string, params: GetConfig['params']) =>
+  `${url}?${Object.keys(params)
+    .filter((name) => params[name] !== undefined && !IGNORED_PARAMS.includes(name))
+    .sort()
+    .map((name) => {
+      const value = params[name]!;
+      const normalized =
+        typeof value === 'number'
+          ? COORDINATE_PARAMS.includes(name) ? value.toFixed(4) : String(value)
+          : value.trim().toLowerCase();
+      return `${name}=${encodeURIComponent(normalized)}`;
+    })
+    .join('&')}`;
+
+const remember = (key: string, entry: CacheEntry) => {
+  memory.delete(key);
+  memory.set(key, entry);
+  if (memory.size > MAX_MEMORY_ENTRIES) memory.delete(memory.keys().next().value!);
+};
+
+let pruned: Promise<void> | null = null;
+
+/** Drops persisted responses too old to be served even as stale ones; runs once per launch. */
+const pruneStored = () =>
+  (pruned ??= (async () => {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(KEY_PREFIX));
+      const entries = await AsyncStorage.multiGet(keys);
+      const expired = entries
+        .filter(([, raw]) => !raw || (JSON.parse(raw) as CacheEntry).storedAt < Date.now() - MAX_STALE_MS)
+        .map(([key]) => key);
+      if (expired.length > 0) await AsyncStorage.multiRemove(expired);
+    } catch {
+      // Pruning only reclaims space; the next launch tries again.
+    }
+  })());
+
+async function loadStored(key: string): Promise<CacheEntry | null> {
+  await pruneStored();
+  try {
+    const raw = await AsyncStorage.getItem(`${KEY_PREFIX}${key}`);
+    return raw ? (JSON.parse(raw) as CacheEntry) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function resolve(url: string, key: string, config: GetConfig, policy: CachePolicy, signal: AbortSignal) {
+  const isFresh = (entry: CacheEntry | null | undefined): entry is CacheEntry =>
+    !!entry && entry.storedAt > Date.now() - policy.ttlMs;
+
+  const stored = policy.persist ? await loadStored(key) : null;
+  if (isFresh(stored)) {
+    remember(key, stored);
+    count('hits');
+    return stored.data;
+  }
+
+  if (policy.budget && !policy.budget.tryTake()) {
+    const fallback = [memory.get(key), stored].find(
+      (entry): entry is CacheEntry => !!entry && entry.storedAt > Date.now() - MAX_STALE_MS
+    );
+    if (fallback) {
+      count('stale');
+      return fallback.data;
+    }
+    throw new WeatherError('budget', 'The per-minute request budget is spent.');
+  }
+
+  count('misses');
+  const { data } = await axios.get(url, { params: config.params, timeout: config.timeout, signal });
+  const entry = { storedAt: Date.now(), data };
+  remember(key, entry);
+  if (policy.persist) {
+    AsyncStorage.setItem(`${KEY_PREFIX}${key}`, JSON.stringify(entry)).catch(() => {});
+  }
+  return data;
+}
+
+/** Waits for a shared request on behalf of one caller, who can stop waiting through `signal`. */
+function attach<T>(request: InFlight, signal?: AbortSignal) {
+  request.waiters += 1;
+  return new Promise<T>((resolvePromise, reject) => {
+    const leave = () => {
+      request.waiters -= 1;
+      if (request.waiters > 0) return;
+      request.controller.abort();
+      // Later callers start afresh rather than joining a request that is being torn down.
+      if (inFlight.get(request.key) === request) inFlight.delete(request.key);
+    };
+    const onAbort = () => {
+      leave();
+      reject(new CanceledError());
+    };
+    request.promise.then(
+      (data) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolvePromise(data as T);
+      },
+      (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
+/**
+ * GET through the response cache. A fresh cached response is returned without
+ * a request; identical requests made at the same time share one network call;
+ * and once `policy.budget` is spent, the last response is served however old,
+ * up to a day. Network failures throw as `axios.get` does; a spent budget with
+ * nothing to fall back on throws a `budget` `WeatherError`.
+ */
+export function cachedGet<T>(url: string, config: GetConfig, policy: CachePolicy): Promise<T> {
+  const key = cacheKeyFor(url, config.params);
+
+  const cached = memory.get(key);
+  if (cached && cached.storedAt > Date.now() - policy.ttlMs) {
+    count('hits');
+    return Promise.resolve(cached.data as T);
+  }
+
+  let request = inFlight.get(key);
+  if (request) {
+    count('shared');
+  } else {
+    const controller = new AbortController();
+    const created: InFlight = { key, controller, waiters: 0, promise: Promise.resolve() };
+    created.promise = resolve(url, key, config, policy, controller.signal).finally(() => {
+      if (inFlight.get(key) === created) inFlight.delete(key);
+    });
+    request = created;
+    inFlight.set(key, request);
+  }
+  return attach<T>(request, config.signal);
+}
@@ -0,0 +1,122 @@
+import axios from 'axios';
+
+import { withRetry } from '@/services/retry';
+import { toWeatherError, WeatherError } from '@/services/weather/errors';
+import { openMeteoProvider } from '@/services/weather/openMeteo';
+import { openWeatherProvider } from '@/services/weather/openWeather';
+import {
+  AirQuality,
+  Coordinates,
+  LocationQuery,
+  Place,
+  RequestOptions,
+  WeatherProvider,
+  WeatherReport,
+} from '@/services/weather/types';
+
+export * from '@/services/weather/errors';
+export * from '@/services/weather/types';
+
+/** Providers in order of preference; later ones are only used when earlier ones fail. */
+export const WEATHER_PROVIDERS: WeatherProvider[] = [openWeatherProvider, openMeteoProvider];
+
+/**
+ * How long a provider is skipped after it reports a revoked key or an exhausted
+ * quota. The app's own request budget is not a provider quota: it refills within
+ * a minute, so running it down only sends that one request to the next provider.
+ */
+const QUOTA_COOLDOWN_MS = 10 * 60 * 1000;
+
+const cooldownUntil: Record<string, number> = {};
+
+const isQuotaError = (error: WeatherError) => error.kind === 'invalidKey' || error.kind === 'rateLimited';
+
+/**
+ * Runs `request` against each usable provider, optionally narrowed by `supports`,
+ * in turn until one succeeds. Fails with the last provider's error as a `WeatherError`.
+ */
+async function withFallback<T>(
+  request: (provider: WeatherProvider) => Promise<T>,
+  supports: (provider: WeatherProvider) => boolean = () => true
+): Promise<T> {
+  const available = WEATHER_PROVIDERS.filter((provider) => provider.isAvailable() && supports(provider));
+  const rested = available.filter((provider) => (cooldownUntil[provider.id] ?? 0) <= Date.now());
+  const candidates = rested.length > 0 ? rested : available;
+  let lastError = new WeatherError('unknown', 'No weather provider is available.');
+
+  for (const provider of candidates) {
+    try {
+      return await request(provider);
+    } catch (e) {
+      // A cancelled request was abandoned on purpose; asking the next provider would defeat that.
+      if (axios.isCancel(e)) throw e;
+      lastError = toWeatherError(e);
+      if (isQuotaError(lastError)) {
+        cooldownUntil[provider.id] = Date.now() + QUOTA_COOLDOWN_MS;
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/** Retries a whole provider chain while its failure is transient, e.g. a dropped connection. */
+const withTransientRetry = <T>(request: () => Promise<T>, options?: RequestOptions) =>
+  withRetry(request, {
+    shouldRetry: (error) => error instanceof WeatherError && error.transient,
+    signal: options?.signal,
+  });
+
+/** An AbortController that is also aborted when `parent` is. */
+function linkedController(parent?: AbortSignal) {
+  const controller = new AbortController();
+  if (parent?.aborted) {
+    controller.abort();
+  } else {
+    parent?.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+  return controller;
+}
+
+/**
+ * Fetches current conditions and the forecast for `query` in parallel. Both
+ * halves of a report always come from the same provider: if one fails, the
+ * other is cancelled before the next provider is asked for both.
+ */
+export function fetchWeather(query: LocationQuery, options?: RequestOptions): Promise<WeatherReport> {
+  return withTransientRetry(
+    () =>
+      withFallback(async (provider) => {
+        const pair = linkedController(options?.signal);
+        const pairOptions = { ...options, signal: pair.signal };
+        try {
+          const [current, forecast] = await Promise.all([
+            provider.getCurrent(query, pairOptions),
+            provider.getForecast(query, pairOptions),
+          ]);
+          return { current, forecast, source: provider.id };
+        } catch (e) {
+          pair.abort();
+          throw e;
+        }
+      }),
+    options
+  );
+}
+
+/** Looks up places matching free text, for search suggestions. */
+export function searchPlaces(text: string, options?: RequestOptions): Promise<Place[]> {
+  return withFallback((provider) => provider.searchPlaces(text, options));
+}
+
+/** Current and hourly forecast air quality at `coords`, from the first provider that offers it. */
+export function fetchAirQuality(coords: Coordinates, options?: RequestOptions): Promise<AirQuality> {
+  return withTransientRetry(
+    () =>
+      withFallback(
+        async (provider) => ({ ...(await provider.getAirQuality!(coords, options)), source: provider.id }),
+        (provider) => !!provider.getAirQuality
+      ),
+    options
+  );
+}
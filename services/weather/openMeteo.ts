@@ -0,0 +1,238 @@
+import { WeatherError } from '@/services/weather/errors';
+import { CachePolicy, cachedGet } from '@/services/weather/http';
+import {
+  Coordinates,
+  CurrentConditions,
+  Forecast,
+  ForecastEntry,
+  LocationQuery,
+  Place,
+  RequestOptions,
+  WeatherCondition,
+  WeatherProvider,
+} from '@/services/weather/types';
+
+const FORECAST_API_URL = 'https://api.open-meteo.com/v1/forecast';
+const GEOCODING_API_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const REQUEST_TIMEOUT_MS = 10000;
+const STEP_HOURS = 3;
+const MAX_FORECAST_STEPS = 40;
+const MAX_PLACES = 5;
+const MINUTE_MS = 60 * 1000;
+
+// The model runs update hourly; place names hardly ever change.
+const FORECAST_POLICY: CachePolicy = { ttlMs: 15 * MINUTE_MS, persist: true };
+const GEOCODING_POLICY: CachePolicy = { ttlMs: 24 * 60 * MINUTE_MS };
+
+interface OpenMeteoResponse {
+  utc_offset_seconds: number;
+  current: {
+    time: number;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    apparent_temperature: number;
+    is_day: number;
+    weather_code: number;
+    cloud_cover: number;
+    pressure_msl: number;
+    wind_speed_10m: number;
+    wind_direction_10m: number;
+  };
+  hourly: {
+    time: number[];
+    temperature_2m: number[];
+    relative_humidity_2m: number[];
+    apparent_temperature: number[];
+    precipitation_probability: (number | null)[];
+    precipitation: number[];
+    weather_code: number[];
+    pressure_msl: number[];
+    wind_speed_10m: number[];
+    cloud_cover: number[];
+    visibility: number[];
+    is_day: number[];
+  };
+  daily: {
+    sunrise: number[];
+    sunset: number[];
+  };
+}
+
+interface GeocodingResponse {
+  results?: { name: string; latitude: number; longitude: number; admin1?: string; country?: string }[];
+}
+
+type ResolvedLocation = Coordinates & { name: string };
+
+/**
+ * WMO weather interpretation codes mapped onto the closest OpenWeather condition,
+ * so the rest of the app only ever deals with one condition vocabulary.
+ */
+const WMO_CONDITIONS: Record<number, WeatherCondition> = {
+  0: { id: 800, main: 'Clear', description: 'clear sky', icon: '01' },
+  1: { id: 801, main: 'Clouds', description: 'few clouds', icon: '02' },
+  2: { id: 802, main: 'Clouds', description: 'scattered clouds', icon: '03' },
+  3: { id: 804, main: 'Clouds', description: 'overcast clouds', icon: '04' },
+  45: { id: 741, main: 'Fog', description: 'fog', icon: '50' },
+  48: { id: 741, main: 'Fog', description: 'depositing rime fog', icon: '50' },
+  51: { id: 300, main: 'Drizzle', description: 'light intensity drizzle', icon: '09' },
+  53: { id: 301, main: 'Drizzle', description: 'drizzle', icon: '09' },
+  55: { id: 302, main: 'Drizzle', description: 'heavy intensity drizzle', icon: '09' },
+  56: { id: 511, main: 'Rain', description: 'freezing drizzle', icon: '13' },
+  57: { id: 511, main: 'Rain', description: 'freezing drizzle', icon: '13' },
+  61: { id: 500, main: 'Rain', description: 'light rain', icon: '10' },
+  63: { id: 501, main: 'Rain', description: 'moderate rain', icon: '10' },
+  65: { id: 502, main: 'Rain', description: 'heavy intensity rain', icon: '10' },
+  66: { id: 511, main: 'Rain', description: 'freezing rain', icon: '13' },
+  67: { id: 511, main: 'Rain', description: 'freezing rain', icon: '13' },
+  71: { id: 600, main: 'Snow', description: 'light snow', icon: '13' },
+  73: { id: 601, main: 'Snow', description: 'snow', icon: '13' },
+  75: { id: 602, main: 'Snow', description: 'heavy snow', icon: '13' },
+  77: { id: 600, main: 'Snow', description: 'snow grains', icon: '13' },
+  80: { id: 520, main: 'Rain', description: 'light intensity shower rain', icon: '09' },
+  81: { id: 521, main: 'Rain', description: 'shower rain', icon: '09' },
+  82: { id: 522, main: 'Rain', description: 'heavy intensity shower rain', icon: '09' },
+  85: { id: 620, main: 'Snow', description: 'light shower snow', icon: '13' },
+  86: { id: 622, main: 'Snow', description: 'heavy shower snow', icon: '13' },
+  95: { id: 211, main: 'Thunderstorm', description: 'thunderstorm', icon: '11' },
+  96: { id: 201, main: 'Thunderstorm', description: 'thunderstorm with rain', icon: '11' },
+  99: { id: 202, main: 'Thunderstorm', description: 'thunderstorm with heavy rain', icon: '11' },
+};
+
+const toCondition = (code: number, isDay: boolean): WeatherCondition => {
+  const condition = WMO_CONDITIONS[code] ?? WMO_CONDITIONS[0];
+  return { ...condition, icon: `${condition.icon}${isDay ? 'd' : 'n'}` };
+};
+
+const formatCoordinates = ({ lat, lon }: Coordinates) => `${lat.toFixed(2)}°, ${lon.toFixed(2)}°`;
+
+const resolveLocation = async (query: LocationQuery, options: RequestOptions): Promise<ResolvedLocation> => {
+  if (!('q' in query)) {
+    return { lat: query.lat, lon: query.lon, name: query.name ?? formatCoordinates(query) };
+  }
+  const data = await cachedGet<GeocodingResponse>(GEOCODING_API_URL, {
+    params: { name: query.q, count: 1, language: options.language },
+    timeout: REQUEST_TIMEOUT_MS,
+    signal: options.signal,
+  }, GEOCODING_POLICY);
+  const match = data.results?.[0];
+  if (!match) {
+    throw new WeatherError('notFound', `No location found for "${query.q}"`);
+  }
+  return { lat: match.latitude, lon: match.longitude, name: match.name };
+};
+
+const fetchForecast = async ({ lat, lon }: Coordinates, options: RequestOptions) => {
+  const data = await cachedGet<OpenMeteoResponse>(FORECAST_API_URL, {
+    params: {
+      latitude: lat,
+      longitude: lon,
+      current: 'temperature_2m,relative_humidity_2m,apparent_temperature,is_day,weather_code,cloud_cover,pressure_msl,wind_speed_10m,wind_direction_10m',
+      hourly: 'temperature_2m,relative_humidity_2m,apparent_temperature,precipitation_probability,precipitation,weather_code,pressure_msl,wind_speed_10m,cloud_cover,visibility,is_day',
+      daily: 'sunrise,sunset',
+      timezone: 'auto',
+      timeformat: 'unixtime',
+      wind_speed_unit: 'ms',
+      forecast_days: 6,
+    },
+    timeout: REQUEST_TIMEOUT_MS,
+    signal: options.signal,
+  }, FORECAST_POLICY);
+  return data;
+};
+
+/**
+ * Folds the hourly series into 3-hour steps, matching the shape of OpenWeather's
+ * 5 day / 3 hour forecast. Steps are aligned to the location's local time, as the
+ * hours are: at UTC+05:30 every hour falls on :30 UTC, so none would align to UTC.
+ */
+const toForecastEntries = (
+  hourly: OpenMeteoResponse['hourly'],
+  utcOffsetSeconds: number,
+  now: number
+): ForecastEntry[] => {
+  const entries: ForecastEntry[] = [];
+  const stepSeconds = STEP_HOURS * 3600;
+
+  hourly.time.forEach((time, index) => {
+    const aligned = (time + utcOffsetSeconds) % stepSeconds === 0;
+    if (time + stepSeconds <= now || !aligned || entries.length >= MAX_FORECAST_STEPS) return;
+
+    const end = Math.min(index + STEP_HOURS, hourly.time.length);
+    const temperatures = hourly.temperature_2m.slice(index, end);
+    const probabilities = hourly.precipitation_probability.slice(index, end).map((value) => value ?? 0);
+
+    entries.push({
+      time,
+      temperature: hourly.temperature_2m[index],
+      tempMin: Math.min(...temperatures),
+      tempMax: Math.max(...temperatures),
+      feelsLike: hourly.apparent_temperature[index],
+      humidity: hourly.relative_humidity_2m[index],
+      pressure: hourly.pressure_msl[index],
+      windSpeed: hourly.wind_speed_10m[index],
+      cloudiness: hourly.cloud_cover[index],
+      precipitationProbability: Math.max(...probabilities) / 100,
+      precipitation: hourly.precipitation.slice(index, end).reduce((sum, value) => sum + value, 0),
+      condition: toCondition(hourly.weather_code[index], hourly.is_day[index] === 1),
+    });
+  });
+
+  return entries;
+};
+
+export const openMeteoProvider: WeatherProvider = {
+  id: 'open-meteo',
+  name: 'Open-Meteo',
+
+  isAvailable: () => true,
+
+  async getCurrent(query: LocationQuery, options: RequestOptions = {}): Promise<CurrentConditions> {
+    const location = await resolveLocation(query, options);
+    const data = await fetchForecast(location, options);
+    const { current, hourly, daily } = data;
+    const hourIndex = Math.max(0, hourly.time.findIndex((time) => time > current.time) - 1);
+
+    return {
+      locationName: location.name,
+      coords: { lat: location.lat, lon: location.lon },
+      timezoneOffset: data.utc_offset_seconds,
+      observedAt: current.time,
+      temperature: current.temperature_2m,
+      feelsLike: current.apparent_temperature,
+      humidity: current.relative_humidity_2m,
+      pressure: current.pressure_msl,
+      windSpeed: current.wind_speed_10m,
+      windDirection: current.wind_direction_10m,
+      visibility: hourly.visibility[hourIndex],
+      cloudiness: current.cloud_cover,
+      sunrise: daily.sunrise[0],
+      sunset: daily.sunset[0],
+      condition: toCondition(current.weather_code, current.is_day === 1),
+    };
+  },
+
+  async getForecast(query: LocationQuery, options: RequestOptions = {}): Promise<Forecast> {
+    const location = await resolveLocation(query, options);
+    const data = await fetchForecast(location, options);
+    return {
+      timezoneOffset: data.utc_offset_seconds,
+      entries: toForecastEntries(data.hourly, data.utc_offset_seconds, Date.now() / 1000),
+    };
+  },
+
+  async searchPlaces(text: string, options: RequestOptions = {}): Promise<Place[]> {
+    const data = await cachedGet<GeocodingResponse>(GEOCODING_API_URL, {
+      params: { name: text, count: MAX_PLACES, language: options.language },
+      timeout: REQUEST_TIMEOUT_MS,
+      signal: options.signal,
+    }, GEOCODING_POLICY);
+    return (data.results ?? []).map((result) => ({
+      name: result.name,
+      region: result.admin1,
+      country: result.country ?? '',
+      lat: result.latitude,
+      lon: result.longitude,
+    }));
+  },
+};
@@ -0,0 +1,210 @@
+import { OPENWEATHER_API_KEY } from '@env';
+
+import { CachePolicy, cachedGet, createRequestBudget } from '@/services/weather/http';
+import {
+  AirQuality,
+  AirQualitySample,
+  Coordinates,
+  CurrentConditions,
+  Forecast,
+  ForecastEntry,
+  LocationQuery,
+  Place,
+  RequestOptions,
+  WeatherProvider,
+} from '@/services/weather/types';
+
+const API_KEY = OPENWEATHER_API_KEY;
+const WEATHER_API_URL = 'https://api.openweathermap.org/data/2.5/weather';
+const FORECAST_API_URL = 'https://api.openweathermap.org/data/2.5/forecast';
+const GEOCODING_API_URL = 'https://api.openweathermap.org/geo/1.0/direct';
+const AIR_POLLUTION_API_URL = 'https://api.openweathermap.org/data/2.5/air_pollution';
+const AIR_POLLUTION_FORECAST_API_URL = 'https://api.openweathermap.org/data/2.5/air_pollution/forecast';
+const MAX_PLACES = 5;
+const REQUEST_TIMEOUT_MS = 10000;
+const MINUTE_MS = 60 * 1000;
+
+/** Kept under the free tier's 60 calls per minute, which the team's devices share. */
+const budget = createRequestBudget(50);
+
+// Current conditions update about every 10 minutes and the forecast every few hours.
+const CURRENT_POLICY: CachePolicy = { ttlMs: 10 * MINUTE_MS, persist: true, budget };
+const FORECAST_POLICY: CachePolicy = { ttlMs: 30 * MINUTE_MS, persist: true, budget };
+const AIR_POLLUTION_POLICY: CachePolicy = { ttlMs: 30 * MINUTE_MS, persist: true, budget };
+const GEOCODING_POLICY: CachePolicy = { ttlMs: 24 * 60 * MINUTE_MS, budget };
+
+interface OpenWeatherCondition {
+  id: number;
+  main: string;
+  description: string;
+  icon: string;
+}
+
+interface OpenWeatherCurrentResponse {
+  name: string;
+  coord: { lat: number; lon: number };
+  timezone: number;
+  dt: number;
+  main: { temp: number; humidity: number; feels_like: number; pressure: number };
+  weather: OpenWeatherCondition[];
+  wind: { speed: number; deg?: number };
+  clouds: { all: number };
+  visibility: number;
+  sys: { sunrise: number; sunset: number };
+}
+
+interface OpenWeatherForecastItem {
+  dt: number;
+  dt_txt: string;
+  main: {
+    temp: number;
+    feels_like: number;
+    temp_min: number;
+    temp_max: number;
+    humidity: number;
+    pressure: number;
+  };
+  weather: OpenWeatherCondition[];
+  wind: { speed: number };
+  clouds: { all: number };
+  pop?: number;
+  rain?: { '3h'?: number };
+  snow?: { '3h'?: number };
+}
+
+interface OpenWeatherForecastResponse {
+  list: OpenWeatherForecastItem[];
+  city: { timezone: number };
+}
+
+interface OpenWeatherGeocodingResult {
+  name: string;
+  lat: number;
+  lon: number;
+  country: string;
+  state?: string;
+  local_names?: Record<string, string>;
+}
+
+interface OpenWeatherAirPollutionItem {
+  dt: number;
+  main: { aqi: number };
+  components: { co: number; no: number; no2: number; o3: number; so2: number; pm2_5: number; pm10: number; nh3: number };
+}
+
+interface OpenWeatherAirPollutionResponse {
+  list: OpenWeatherAirPollutionItem[];
+}
+
+// No `lang`: OpenWeather has no Sinhala or Tamil descriptions, so screens label
+// conditions from the catalog in `constants/Weather` instead.
+const toParams = (query: LocationQuery) => ({
+  ...('q' in query ? { q: query.q } : { lat: query.lat, lon: query.lon }),
+  appid: API_KEY,
+  units: 'metric',
+});
+
+const toForecastEntry = (item: OpenWeatherForecastItem): ForecastEntry => ({
+  time: item.dt,
+  temperature: item.main.temp,
+  tempMin: item.main.temp_min,
+  tempMax: item.main.temp_max,
+  feelsLike: item.main.feels_like,
+  humidity: item.main.humidity,
+  pressure: item.main.pressure,
+  windSpeed: item.wind.speed,
+  cloudiness: item.clouds.all,
+  precipitationProbability: item.pop ?? 0,
+  precipitation: (item.rain?.['3h'] ?? 0) + (item.snow?.['3h'] ?? 0),
+  condition: item.weather[0],
+});
+
+const toAirQualitySample = ({ dt, main, components }: OpenWeatherAirPollutionItem): AirQualitySample => ({
+  time: dt,
+  aqi: main.aqi,
+  components: {
+    pm2_5: components.pm2_5,
+    pm10: components.pm10,
+    no2: components.no2,
+    o3: components.o3,
+    so2: components.so2,
+    co: components.co,
+  },
+});
+
+export const openWeatherProvider: WeatherProvider = {
+  id: 'openweather',
+  name: 'OpenWeather',
+
+  isAvailable: () => !!API_KEY,
+
+  async getCurrent(query: LocationQuery, options: RequestOptions = {}): Promise<CurrentConditions> {
+    const data = await cachedGet<OpenWeatherCurrentResponse>(WEATHER_API_URL, {
+      params: toParams(query),
+      timeout: REQUEST_TIMEOUT_MS,
+      signal: options.signal,
+    }, CURRENT_POLICY);
+    return {
+      locationName: ('name' in query && query.name) || data.name,
+      coords: data.coord,
+      timezoneOffset: data.timezone,
+      observedAt: data.dt,
+      temperature: data.main.temp,
+      feelsLike: data.main.feels_like,
+      humidity: data.main.humidity,
+      pressure: data.main.pressure,
+      windSpeed: data.wind.speed,
+      windDirection: data.wind.deg,
+      visibility: data.visibility,
+      cloudiness: data.clouds.all,
+      sunrise: data.sys.sunrise,
+      sunset: data.sys.sunset,
+      condition: data.weather[0],
+    };
+  },
+
+  async getForecast(query: LocationQuery, options: RequestOptions = {}): Promise<Forecast> {
+    const data = await cachedGet<OpenWeatherForecastResponse>(FORECAST_API_URL, {
+      params: toParams(query),
+      timeout: REQUEST_TIMEOUT_MS,
+      signal: options.signal,
+    }, FORECAST_POLICY);
+    return {
+      timezoneOffset: data.city.timezone,
+      entries: data.list.map(toForecastEntry),
+    };
+  },
+
+  async searchPlaces(text: string, options: RequestOptions = {}): Promise<Place[]> {
+    const data = await cachedGet<OpenWeatherGeocodingResult[]>(GEOCODING_API_URL, {
+      params: { q: text, limit: MAX_PLACES, appid: API_KEY },
+      timeout: REQUEST_TIMEOUT_MS,
+      signal: options.signal,
+    }, GEOCODING_POLICY);
+    return data.map((result) => ({
+      name: (options.language && result.local_names?.[options.language]) || result.name,
+      region: result.state,
+      country: result.country,
+      lat: result.lat,
+      lon: result.lon,
+    }));
+  },
+
+  async getAirQuality({ lat, lon }: Coordinates, options: RequestOptions = {}): Promise<Omit<AirQuality, 'source'>> {
+    const request = (url: string) =>
+      cachedGet<OpenWeatherAirPollutionResponse>(
+        url,
+        { params: { lat, lon, appid: API_KEY }, timeout: REQUEST_TIMEOUT_MS, signal: options.signal },
+        AIR_POLLUTION_POLICY
+      );
+    const [current, forecast] = await Promise.all([
+      request(AIR_POLLUTION_API_URL),
+      request(AIR_POLLUTION_FORECAST_API_URL),
+    ]);
+    const now = current.list[0];
+    return {
+      current: toAirQualitySample(now),
+      forecast: forecast.list.filter((item) => item.dt > now.dt).map(toAirQualitySample),
+    };
+  },
+};
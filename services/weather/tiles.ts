@@ -0,0 +1,27 @@
+import { OPENWEATHER_API_KEY, WEATHER_TILE_URL } from '@env';
+
+export type WeatherLayer = 'precipitation' | 'clouds' | 'temperature' | 'wind';
+
+export const WEATHER_LAYERS: WeatherLayer[] = ['precipitation', 'clouds', 'temperature', 'wind'];
+
+/** OpenWeather's name for each map layer, substituted for `{layer}` in the template. */
+const LAYER_NAMES: Record<WeatherLayer, string> = {
+  precipitation: 'precipitation_new',
+  clouds: 'clouds_new',
+  temperature: 'temp_new',
+  wind: 'wind_new',
+};
+
+/**
+ * Tile URL template for weather overlays. `{layer}` and `{apiKey}` are filled in
+ * here and `{z}/{x}/{y}` by Leaflet. Set `WEATHER_TILE_URL` in `.env` to point
+ * the map at a local tile server instead.
+ */
+const DEFAULT_TILE_URL = 'https://tile.openweathermap.org/map/{layer}/{z}/{x}/{y}.png?appid={apiKey}';
+
+export const BASE_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export const weatherTileUrl = (layer: WeatherLayer) =>
+  (WEATHER_TILE_URL || DEFAULT_TILE_URL)
+    .replace('{layer}', LAYER_NAMES[layer])
+    .replace('{apiKey}', OPENWEATHER_API_KEY ?? '');
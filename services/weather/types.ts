@@ -0,0 +1,119 @@
+/**
+ * Provider-neutral weather domain model. Every value is stored in metric/SI units
+ * (°C, m/s, hPa, metres, millimetres) and every timestamp in unix seconds (UTC).
+ */
+
+export type Coordinates = {
+  lat: number;
+  lon: number;
+};
+
+export type LocationQuery = { q: string } | (Coordinates & { name?: string });
+
+export interface WeatherCondition {
+  /** OpenWeather condition ID (2xx–8xx); other providers map onto this range. */
+  id: number;
+  main: string;
+  /** The provider's own wording, usually English; shown labels come from `conditionFor(id).label`. */
+  description: string;
+  /** OpenWeather icon code, e.g. `10d`. */
+  icon: string;
+}
+
+export interface CurrentConditions {
+  locationName: string;
+  coords: Coordinates;
+  /** Offset of the location's local time from UTC, in seconds. */
+  timezoneOffset: number;
+  observedAt: number;
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+  windDirection?: number;
+  visibility: number;
+  cloudiness: number;
+  sunrise: number;
+  sunset: number;
+  condition: WeatherCondition;
+}
+
+export interface ForecastEntry {
+  /** Start of the 3-hour step. */
+  time: number;
+  temperature: number;
+  tempMin: number;
+  tempMax: number;
+  feelsLike: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+  cloudiness: number;
+  /** Probability of precipitation, 0–1. */
+  precipitationProbability: number;
+  /** Rain and snow accumulated over the step, in millimetres. */
+  precipitation: number;
+  condition: WeatherCondition;
+}
+
+export interface Forecast {
+  timezoneOffset: number;
+  entries: ForecastEntry[];
+}
+
+export interface WeatherReport {
+  current: CurrentConditions;
+  forecast: Forecast;
+  /** `id` of the provider that served the report. */
+  source: string;
+}
+
+/** Pollutants reported by the air quality endpoints, keyed as OpenWeather names them. */
+export type Pollutant = 'pm2_5' | 'pm10' | 'no2' | 'o3' | 'so2' | 'co';
+
+export interface AirQualitySample {
+  /** Unix seconds. */
+  time: number;
+  /** OpenWeather's Air Quality Index, 1 (good) to 5 (very poor). */
+  aqi: number;
+  /** Concentrations in µg/m³. */
+  components: Record<Pollutant, number>;
+}
+
+export interface AirQuality {
+  current: AirQualitySample;
+  /** Hourly samples ahead of `current`. */
+  forecast: AirQualitySample[];
+  /** `id` of the provider that served the data. */
+  source: string;
+}
+
+/** A geocoding match, detailed enough to tell same-named places apart. */
+export interface Place extends Coordinates {
+  name: string;
+  /** First-level administrative area, e.g. a province or state. */
+  region?: string;
+  country: string;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** ISO 639-1 code for localized descriptions and place names, where the provider supports it. */
+  language?: string;
+}
+
+export interface WeatherProvider {
+  id: string;
+  name: string;
+  /** Whether the provider is configured well enough to be tried at all. */
+  isAvailable(): boolean;
+  getCurrent(query: LocationQuery, options?: RequestOptions): Promise<CurrentConditions>;
+  getForecast(query: LocationQuery, options?: RequestOptions): Promise<Forecast>;
+  searchPlaces(text: string, options?: RequestOptions): Promise<Place[]>;
+  /** Current and forecast air quality, for providers that offer it. */
+  getAirQuality?(coords: Coordinates, options?: RequestOptions): Promise<Omit<AirQuality, 'source'>>;
+}
+
+export const isCoordinateQuery = (query: LocationQuery): query is Coordinates & { name?: string } =>
+  'lat' in query && 'lon' in query;
@@ -0,0 +1,41 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { isCoordinateQuery, LocationQuery, WeatherReport } from '@/services/weather';
+
+const KEY_PREFIX = 'weather-cache:';
+
+/** Cache slot for the GPS page, whose coordinates are unknown until the fix arrives. */
+export const CURRENT_LOCATION_CACHE_KEY = 'current-location';
+
+export interface CachedWeather {
+  /** Unix milliseconds at which the report was fetched. */
+  savedAt: number;
+  report: WeatherReport;
+}
+
+/**
+ * Coordinates are rounded to ~10 km so small GPS drift between launches still
+ * hits the same entry; city names are matched case-insensitively.
+ */
+export const weatherCacheKey = (query: LocationQuery) =>
+  isCoordinateQuery(query)
+    ? `${query.lat.toFixed(1)},${query.lon.toFixed(1)}`
+    : query.q.trim().toLowerCase();
+
+export async function saveCachedWeather(key: string, report: WeatherReport) {
+  const entry: CachedWeather = { savedAt: Date.now(), report };
+  try {
+    await AsyncStorage.setItem(`${KEY_PREFIX}${key}`, JSON.stringify(entry));
+  } catch {
+    // A full or unavailable store only costs us the offline copy.
+  }
+}
+
+export async function loadCachedWeather(key: string): Promise<CachedWeather | null> {
+  try {
+    const raw = await AsyncStorage.getItem(`${KEY_PREFIX}${key}`);
+    return raw ? (JSON.parse(raw) as CachedWeather) : null;
+  } catch {
+    return null;
+  }
+}
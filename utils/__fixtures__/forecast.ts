@@ -0,0 +1,36 @@
+import { Forecast, ForecastEntry } from '@/services/weather';
+
+/** A fixed "now" for fixture forecasts, unix seconds. */
+export const NOW = 1_750_000_000;
+
+export const STEP = 3 * 60 * 60;
+
+/** A calm, clear 3-hour step: no rule in `utils/alerts` fires on it. */
+export const calmEntry = (time: number, overrides: Partial<ForecastEntry> = {}): ForecastEntry => ({
+  time,
+  temperature: 28,
+  tempMin: 27,
+  tempMax: 29,
+  feelsLike: 31,
+  humidity: 70,
+  pressure: 1010,
+  windSpeed: 4,
+  cloudiness: 10,
+  precipitationProbability: 0,
+  precipitation: 0,
+  condition: { id: 800, main: 'Clear', description: 'clear sky', icon: '01d' },
+  ...overrides,
+});
+
+/** Consecutive steps starting at `start`, each calm apart from its overrides. */
+export const fixtureForecast = (steps: Partial<ForecastEntry>[], start: number = NOW): Forecast => ({
+  timezoneOffset: 19800,
+  entries: steps.map((overrides, index) => calmEntry(start + index * STEP, overrides)),
+});
+
+export const thunderstorm = (id: number = 211) => ({
+  id,
+  main: 'Thunderstorm',
+  description: 'thunderstorm',
+  icon: '11d',
+});
@@ -0,0 +1,114 @@
+import { calmEntry, fixtureForecast, NOW, STEP, thunderstorm } from '@/utils/__fixtures__/forecast';
+import { AlertThresholds, DEFAULT_ALERT_THRESHOLDS, evaluateAlerts } from '@/utils/alerts';
+
+const evaluate = (forecast = fixtureForecast([]), thresholds: AlertThresholds = DEFAULT_ALERT_THRESHOLDS) =>
+  evaluateAlerts(forecast, thresholds, NOW);
+
+describe('evaluateAlerts', () => {
+  it('raises nothing for a calm forecast', () => {
+    expect(evaluate(fixtureForecast([{}, {}, {}, {}]))).toEqual([]);
+  });
+
+  describe('heavy rain', () => {
+    it('fires at the threshold but not just below it', () => {
+      expect(evaluate(fixtureForecast([{ precipitation: 19.9 }]))).toEqual([]);
+      expect(evaluate(fixtureForecast([{ precipitation: 20 }]))).toEqual([
+        { kind: 'heavyRain', start: NOW, end: NOW + STEP, peak: 20 },
+      ]);
+    });
+
+    it('merges consecutive steps and keeps the worst value', () => {
+      const forecast = fixtureForecast([{ precipitation: 22 }, { precipitation: 35 }, { precipitation: 24 }]);
+      expect(evaluate(forecast)).toEqual([{ kind: 'heavyRain', start: NOW, end: NOW + 3 * STEP, peak: 35 }]);
+    });
+
+    it('splits stretches separated by a calm step', () => {
+      const forecast = fixtureForecast([{ precipitation: 25 }, {}, { precipitation: 30 }]);
+      expect(evaluate(forecast)).toEqual([
+        { kind: 'heavyRain', start: NOW, end: NOW + STEP, peak: 25 },
+        { kind: 'heavyRain', start: NOW + 2 * STEP, end: NOW + 3 * STEP, peak: 30 },
+      ]);
+    });
+
+    it('follows a custom threshold', () => {
+      const forecast = fixtureForecast([{ precipitation: 10 }]);
+      expect(evaluate(forecast, { ...DEFAULT_ALERT_THRESHOLDS, rain3h: 10 })).toHaveLength(1);
+    });
+  });
+
+  describe('strong wind', () => {
+    it('fires at the threshold but not just below it', () => {
+      expect(evaluate(fixtureForecast([{ windSpeed: 13.9 }]))).toEqual([]);
+      expect(evaluate(fixtureForecast([{ windSpeed: 14 }]))).toEqual([
+        { kind: 'strongWind', start: NOW, end: NOW + STEP, peak: 14 },
+      ]);
+    });
+  });
+
+  describe('thunderstorm', () => {
+    it('fires on any 2xx condition, peaking at the highest rain chance', () => {
+      const forecast = fixtureForecast([
+        { condition: thunderstorm(200), precipitationProbability: 0.4 },
+        { condition: thunderstorm(232), precipitationProbability: 0.8 },
+      ]);
+      expect(evaluate(forecast)).toEqual([{ kind: 'thunderstorm', start: NOW, end: NOW + 2 * STEP, peak: 0.8 }]);
+    });
+
+    it('ignores neighbouring condition groups', () => {
+      const forecast = fixtureForecast([
+        { condition: { id: 199, main: 'Unknown', description: '', icon: '01d' } },
+        { condition: { id: 300, main: 'Drizzle', description: 'drizzle', icon: '09d' } },
+      ]);
+      expect(evaluate(forecast)).toEqual([]);
+    });
+
+    it('can be switched off', () => {
+      const forecast = fixtureForecast([{ condition: thunderstorm() }]);
+      expect(evaluate(forecast, { ...DEFAULT_ALERT_THRESHOLDS, thunderstorm: false })).toEqual([]);
+    });
+  });
+
+  describe('extreme heat', () => {
+    it('fires on the feels-like temperature at the threshold but not just below it', () => {
+      expect(evaluate(fixtureForecast([{ feelsLike: 39.9, temperature: 41 }]))).toEqual([]);
+      expect(evaluate(fixtureForecast([{ feelsLike: 40 }]))).toEqual([
+        { kind: 'extremeHeat', start: NOW, end: NOW + STEP, peak: 40 },
+      ]);
+    });
+  });
+
+  describe('time window', () => {
+    it('includes the step in progress and drops the one that just ended', () => {
+      const forecast = {
+        timezoneOffset: 0,
+        entries: [
+          calmEntry(NOW - STEP, { precipitation: 30 }),
+          calmEntry(NOW - STEP + 1, { windSpeed: 20 }),
+        ],
+      };
+      expect(evaluate(forecast)).toEqual([
+        { kind: 'strongWind', start: NOW - STEP + 1, end: NOW + 1, peak: 20 },
+      ]);
+    });
+
+    it('only looks 48 hours ahead', () => {
+      const forecast = {
+        timezoneOffset: 0,
+        entries: [
+          calmEntry(NOW + 48 * 60 * 60 - 1, { precipitation: 30 }),
+          calmEntry(NOW + 48 * 60 * 60, { windSpeed: 20 }),
+        ],
+      };
+      expect(evaluate(forecast).map((alert) => alert.kind)).toEqual(['heavyRain']);
+    });
+  });
+
+  it('orders alerts of different kinds by start time', () => {
+    const forecast = fixtureForecast([{ windSpeed: 15 }, { feelsLike: 42 }, { precipitation: 25 }]);
+    expect(evaluate(forecast).map(({ kind, start }) => [kind, start])).toEqual([
+      ['strongWind', NOW],
+      ['extremeHeat', NOW + STEP],
+      ['heavyRain', NOW + 2 * STEP],
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  convertDistance,
+  convertPrecipitation,
+  convertPressure,
+  convertTemperature,
+  convertWindSpeed,
+  formatDistance,
+  formatNumber,
+  formatPercent,
+  formatPrecipitation,
+  formatPressure,
+  formatTemperature,
+  formatWindSpeed,
+  toBeaufort,
+} from '@/utils/units';
+
+describe('temperature', () => {
+  it('converts Celsius to Fahrenheit', () => {
+    expect(convertTemperature(0, 'fahrenheit')).toBe(32);
+    expect(convertTemperature(100, 'fahrenheit')).toBe(212);
+    expect(convertTemperature(-40, 'fahrenheit')).toBe(-40);
+    expect(convertTemperature(28.4, 'celsius')).toBe(28.4);
+  });
+
+  it('rounds to whole degrees unless asked for decimals', () => {
+    expect(formatTemperature(28.4, 'celsius')).toBe('28°');
+    expect(formatTemperature(28.5, 'celsius')).toBe('29°');
+    expect(formatTemperature(28.46, 'celsius', { decimals: 1 })).toBe('28.5°');
+    expect(formatTemperature(30, 'fahrenheit', { showUnit: true })).toBe('86°F');
+  });
+});
+
+describe('wind speed', () => {
+  it('converts metres per second to each unit', () => {
+    expect(convertWindSpeed(10, 'ms')).toBe(10);
+    expect(convertWindSpeed(10, 'kmh')).toBeCloseTo(36);
+    expect(convertWindSpeed(10, 'mph')).toBeCloseTo(22.369);
+    expect(convertWindSpeed(10, 'knots')).toBeCloseTo(19.438);
+  });
+
+  it('maps speeds to Beaufort forces at the band edges', () => {
+    expect(toBeaufort(0)).toBe(0);
+    expect(toBeaufort(0.49)).toBe(0);
+    expect(toBeaufort(0.5)).toBe(1);
+    expect(toBeaufort(10.8)).toBe(6);
+    expect(toBeaufort(32.6)).toBe(11);
+    expect(toBeaufort(32.7)).toBe(12);
+    expect(toBeaufort(60)).toBe(12);
+  });
+
+  it('formats with one decimal, or a whole Beaufort force', () => {
+    expect(formatWindSpeed(5, 'kmh')).toBe('18.0 km/h');
+    expect(formatWindSpeed(3.04, 'ms')).toBe('3.0 m/s');
+    expect(formatWindSpeed(9, 'beaufort')).toBe('5 Bft');
+  });
+});
+
+describe('pressure', () => {
+  it('converts hectopascals to each unit', () => {
+    expect(convertPressure(1013.25, 'hPa')).toBe(1013.25);
+    expect(convertPressure(1013.25, 'inHg')).toBeCloseTo(29.92, 2);
+    expect(convertPressure(1013.25, 'mmHg')).toBeCloseTo(760, 0);
+  });
+
+  it('uses two decimals only for inches of mercury', () => {
+    expect(formatPressure(1013.25, 'hPa')).toBe('1013 hPa');
+    expect(formatPressure(1013.25, 'inHg')).toBe('29.92 inHg');
+    expect(formatPressure(1013.25, 'mmHg')).toBe('760 mmHg');
+  });
+});
+
+describe('distance and precipitation', () => {
+  it('converts metres to kilometres or miles', () => {
+    expect(convertDistance(10000, 'km')).toBe(10);
+    expect(convertDistance(1609.344, 'mi')).toBe(1);
+    expect(formatDistance(10000, 'mi')).toBe('6.2 mi');
+  });
+
+  it('converts millimetres to inches alongside miles', () => {
+    expect(convertPrecipitation(25.4, 'mi')).toBe(1);
+    expect(convertPrecipitation(3, 'km')).toBe(3);
+    expect(formatPrecipitation(3.26, 'km')).toBe('3.3 mm');
+    expect(formatPrecipitation(3.26, 'mi')).toBe('0.13 in');
+  });
+});
+
+describe('percent', () => {
+  it('rounds a fraction to a whole percentage', () => {
+    expect(formatPercent(0.7)).toBe('70%');
+    expect(formatPercent(0.425)).toBe('43%');
+    expect(formatPercent(0)).toBe('0%');
+  });
+});
+
+describe('locale formatting', () => {
+  it('uses the locale decimal separator without digit grouping', () => {
+    expect(formatNumber(1234.5, 1, 'de-DE')).toBe('1234,5');
+    expect(formatNumber(1234.5, 1)).toBe('1234.5');
+    expect(formatTemperature(28.46, 'celsius', { decimals: 1, locale: 'de-DE' })).toBe('28,5°');
+    expect(formatWindSpeed(5, 'kmh', 'de-DE')).toBe('18,0 km/h');
+  });
+
+  it('formats for the app languages', () => {
+    expect(formatNumber(28.46, 1, 'si-LK')).toBe('28.5');
+    expect(formatNumber(28.46, 1, 'ta-LK')).toBe('28.5');
+  });
+});
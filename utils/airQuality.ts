@@ -0,0 +1,47 @@
+import { TranslationKey } from '@/i18n';
+import { Pollutant } from '@/services/weather';
+
+/** OpenWeather's Air Quality Index, 1 (good) to 5 (very poor). */
+export type AqiLevel = 1 | 2 | 3 | 4 | 5;
+
+export const AQI_LEVELS: Record<AqiLevel, { label: TranslationKey; color: string }> = {
+  1: { label: 'airQuality.good', color: '#4CD964' },
+  2: { label: 'airQuality.fair', color: '#C6E03A' },
+  3: { label: 'airQuality.moderate', color: '#FFD93D' },
+  4: { label: 'airQuality.poor', color: '#FF8C42' },
+  5: { label: 'airQuality.veryPoor', color: '#FF4D4D' },
+};
+
+/** Clamps whatever a provider reports onto the 1–5 scale. */
+export const toAqiLevel = (aqi: number) => Math.min(5, Math.max(1, Math.round(aqi))) as AqiLevel;
+
+/** Pollutants in the order they are listed, with their display names. */
+export const POLLUTANTS: { key: Pollutant; name: string }[] = [
+  { key: 'pm2_5', name: 'PM2.5' },
+  { key: 'pm10', name: 'PM10' },
+  { key: 'no2', name: 'NO₂' },
+  { key: 'o3', name: 'O₃' },
+  { key: 'so2', name: 'SO₂' },
+  { key: 'co', name: 'CO' },
+];
+
+/**
+ * Lower bounds in µg/m³ of the Fair, Moderate, Poor and Very Poor bands for
+ * each pollutant, as OpenWeather defines its index.
+ */
+const POLLUTANT_BANDS: Record<Pollutant, [number, number, number, number]> = {
+  pm2_5: [10, 25, 50, 75],
+  pm10: [20, 50, 100, 200],
+  no2: [40, 70, 150, 200],
+  o3: [60, 100, 140, 180],
+  so2: [20, 80, 250, 350],
+  co: [4400, 9400, 12400, 15400],
+};
+
+/** Which AQI band a single pollutant's concentration falls in. */
+export const pollutantLevel = (pollutant: Pollutant, concentration: number) =>
+  (POLLUTANT_BANDS[pollutant].filter((bound) => concentration >= bound).length + 1) as AqiLevel;
+
+/** Concentration as a 0–1 share of where the pollutant's Very Poor band starts, for drawing bars. */
+export const pollutantShare = (pollutant: Pollutant, concentration: number) =>
+  Math.min(1, concentration / POLLUTANT_BANDS[pollutant][3]);
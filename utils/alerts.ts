@@ -0,0 +1,140 @@
+import { Translate } from '@/i18n';
+import { Forecast, ForecastEntry } from '@/services/weather';
+import { toLocalDate } from '@/utils/forecast';
+import { formatLocationTime, formatWeekday, TimeFormat } from '@/utils/time';
+import {
+  formatPercent,
+  formatPrecipitation,
+  formatTemperature,
+  formatWindSpeed,
+  UnitPreferences,
+} from '@/utils/units';
+
+export type AlertKind = 'heavyRain' | 'strongWind' | 'thunderstorm' | 'extremeHeat';
+
+export interface AlertThresholds {
+  /** Rain and snow in a single 3-hour step, in millimetres. */
+  rain3h: number;
+  /** Sustained wind speed, in m/s. */
+  windSpeed: number;
+  /** Feels-like temperature, in °C. */
+  heat: number;
+  /** Whether any thunderstorm condition (2xx) raises an alert. */
+  thunderstorm: boolean;
+}
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  rain3h: 20,
+  windSpeed: 14,
+  heat: 40,
+  thunderstorm: true,
+};
+
+/** One stretch of consecutive forecast steps that breach the same threshold. */
+export interface WeatherAlert {
+  kind: AlertKind;
+  /** Start of the first breaching step, unix seconds. */
+  start: number;
+  /** End of the last breaching step, unix seconds. */
+  end: number;
+  /**
+   * Worst value over the stretch, in the rule's own measure: millimetres for
+   * rain, m/s for wind, °C for heat and a 0–1 probability for thunderstorms.
+   */
+  peak: number;
+}
+
+const STEP_SECONDS = 3 * 60 * 60;
+/** Only the next two days are checked, matching the hourly chart. */
+const ALERT_HORIZON_SECONDS = 48 * 60 * 60;
+
+type Rule = {
+  kind: AlertKind;
+  breaches: (entry: ForecastEntry, thresholds: AlertThresholds) => boolean;
+  value: (entry: ForecastEntry) => number;
+};
+
+const isThunderstorm = (conditionId: number) => Math.floor(conditionId / 100) === 2;
+
+const RULES: Rule[] = [
+  {
+    kind: 'heavyRain',
+    breaches: (entry, thresholds) => entry.precipitation >= thresholds.rain3h,
+    value: (entry) => entry.precipitation,
+  },
+  {
+    kind: 'strongWind',
+    breaches: (entry, thresholds) => entry.windSpeed >= thresholds.windSpeed,
+    value: (entry) => entry.windSpeed,
+  },
+  {
+    kind: 'thunderstorm',
+    breaches: (entry, thresholds) => thresholds.thunderstorm && isThunderstorm(entry.condition.id),
+    value: (entry) => entry.precipitationProbability,
+  },
+  {
+    kind: 'extremeHeat',
+    breaches: (entry, thresholds) => entry.feelsLike >= thresholds.heat,
+    value: (entry) => entry.feelsLike,
+  },
+];
+
+/**
+ * Checks the upcoming steps of `forecast` against `thresholds` and returns one
+ * alert per run of consecutive breaching steps, ordered by start time. Pure, so
+ * it can be exercised with fixture forecasts and a fixed `now` (unix seconds).
+ */
+export function evaluateAlerts(forecast: Forecast, thresholds: AlertThresholds, now: number): WeatherAlert[] {
+  const upcoming = forecast.entries.filter(
+    (entry) => entry.time + STEP_SECONDS > now && entry.time < now + ALERT_HORIZON_SECONDS
+  );
+
+  const alerts: WeatherAlert[] = [];
+  RULES.forEach(({ kind, breaches, value }) => {
+    let open: WeatherAlert | null = null;
+    upcoming.forEach((entry) => {
+      if (!breaches(entry, thresholds)) {
+        open = null;
+        return;
+      }
+      if (open && entry.time <= open.end) {
+        open.end = entry.time + STEP_SECONDS;
+        open.peak = Math.max(open.peak, value(entry));
+      } else {
+        open = { kind, start: entry.time, end: entry.time + STEP_SECONDS, peak: value(entry) };
+        alerts.push(open);
+      }
+    });
+  });
+
+  return alerts.sort((a, b) => a.start - b.start);
+}
+
+/** What the alert is about, e.g. "Heavy rain, up to 24.0 mm in 3 hours". */
+export function describeAlert(alert: WeatherAlert, t: Translate, units: UnitPreferences, locale?: string) {
+  switch (alert.kind) {
+    case 'heavyRain':
+      return t('alerts.heavyRain', { amount: formatPrecipitation(alert.peak, units.distance, locale) });
+    case 'strongWind':
+      return t('alerts.strongWind', { speed: formatWindSpeed(alert.peak, units.windSpeed, locale) });
+    case 'thunderstorm':
+      return t('alerts.thunderstorm', { chance: formatPercent(alert.peak, locale) });
+    case 'extremeHeat':
+      return t('alerts.extremeHeat', { temperature: formatTemperature(alert.peak, units.temperature, { locale }) });
+  }
+}
+
+/** When the alert applies, in the location's own time, e.g. "Tue 03:00 PM – 09:00 PM". */
+export function describeAlertWindow(
+  alert: WeatherAlert,
+  timezoneOffset: number,
+  t: Translate,
+  locale?: string,
+  timeFormat?: TimeFormat
+) {
+  return t('alerts.window', {
+    day: formatWeekday(toLocalDate(alert.start, timezoneOffset), locale),
+    start: formatLocationTime(alert.start, timezoneOffset, locale, timeFormat),
+    end: formatLocationTime(alert.end, timezoneOffset, locale, timeFormat),
+  });
+}
@@ -0,0 +1,20 @@
+import { formatNumber } from '@/utils/units';
+
+export type DeltaDirection = 'up' | 'down' | 'even';
+
+/**
+ * How far `value` is from `baseline`, both in display units. Differences
+ * smaller than `tolerance` count as even, so rounding noise is not highlighted.
+ */
+export function compareToBaseline(value: number, baseline: number, tolerance: number) {
+  const difference = value - baseline;
+  const direction: DeltaDirection = Math.abs(difference) < tolerance ? 'even' : difference > 0 ? 'up' : 'down';
+  return { difference, direction };
+}
+
+/** A difference with an explicit sign, e.g. `+2.5` or `−1`; the minus is U+2212. */
+export const formatSignedNumber = (value: number, decimals: number, locale?: string) => {
+  const magnitude = formatNumber(Math.abs(value), decimals, locale);
+  if (Number(Math.abs(value).toFixed(decimals)) === 0) return `±${magnitude}`;
+  return `${value > 0 ? '+' : '−'}${magnitude}`;
+};
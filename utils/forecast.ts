@@ -0,0 +1,80 @@
+import { Forecast, ForecastEntry, WeatherCondition } from '@/services/weather';
+
+export interface DailyForecast {
+  /** Calendar date at the location, `YYYY-MM-DD`. */
+  date: string;
+  tempMin: number;
+  tempMax: number;
+  /** The condition that prevails over the day's steps. */
+  condition: WeatherCondition;
+  /** Total rain and snow over the day, in millimetres. */
+  precipitation: number;
+  /** Highest probability of precipitation of any step in the day, 0–1. */
+  precipitationProbability: number;
+}
+
+/**
+ * Tie-break rank per condition group (ID / 100; 800 clear sky and 80x clouds
+ * are split), so that on an even split the more significant weather wins.
+ */
+const conditionRank = (id: number) => {
+  if (id === 800) return 0;
+  switch (Math.floor(id / 100)) {
+    case 8: return 1;
+    case 7: return 2;
+    case 3: return 3;
+    case 5: return 4;
+    case 6: return 5;
+    case 2: return 6;
+    default: return 0;
+  }
+};
+
+/** Calendar date at a location whose local time is `timezoneOffset` seconds ahead of UTC. */
+export const toLocalDate = (time: number, timezoneOffset: number) =>
+  new Date((time + timezoneOffset) * 1000).toISOString().slice(0, 10);
+
+const dominantCondition = (entries: ForecastEntry[]): WeatherCondition => {
+  const counts = new Map<number, number>();
+  entries.forEach(({ condition }) => counts.set(condition.id, (counts.get(condition.id) ?? 0) + 1));
+
+  const [id] = [...counts.entries()].reduce((best, candidate) =>
+    candidate[1] > best[1] || (candidate[1] === best[1] && conditionRank(candidate[0]) > conditionRank(best[0]))
+      ? candidate
+      : best
+  );
+  const matches = entries.filter(({ condition }) => condition.id === id).map(({ condition }) => condition);
+  return matches.find((condition) => condition.icon.endsWith('d')) ?? matches[0];
+};
+
+/**
+ * Groups the 3-hourly forecast by the location's own calendar day, rather than
+ * by UTC, and summarises each day.
+ */
+export function aggregateDailyForecast({ entries, timezoneOffset }: Forecast): DailyForecast[] {
+  const days = new Map<string, ForecastEntry[]>();
+  entries.forEach((entry) => {
+    const date = toLocalDate(entry.time, timezoneOffset);
+    days.set(date, [...(days.get(date) ?? []), entry]);
+  });
+
+  return [...days.entries()].map(([date, dayEntries]) => ({
+    date,
+    tempMin: Math.min(...dayEntries.map((entry) => entry.tempMin)),
+    tempMax: Math.max(...dayEntries.map((entry) => entry.tempMax)),
+    condition: dominantCondition(dayEntries),
+    precipitation: dayEntries.reduce((sum, entry) => sum + entry.precipitation, 0),
+    precipitationProbability: Math.max(...dayEntries.map((entry) => entry.precipitationProbability)),
+  }));
+}
+
+/** Chance and amount of rain over the `hours` after `now` (unix seconds). */
+export function upcomingRain({ entries }: Forecast, now: number, hours = 24) {
+  const upcoming = entries.filter((entry) => entry.time + 3 * 60 * 60 > now && entry.time < now + hours * 60 * 60);
+  return {
+    /** Highest probability of any step, 0–1. */
+    probability: Math.max(0, ...upcoming.map((entry) => entry.precipitationProbability)),
+    /** Total in millimetres. */
+    amount: upcoming.reduce((sum, entry) => sum + entry.precipitation, 0),
+  };
+}
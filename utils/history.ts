@@ -0,0 +1,105 @@
+import { CurrentConditions } from '@/services/weather';
+
+/** One recorded set of current conditions, in the domain's metric units. */
+export interface Observation {
+  /** Unix seconds the conditions were observed at. */
+  time: number;
+  temperature: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+}
+
+export type ObservationMetric = Exclude<keyof Observation, 'time'>;
+
+export const OBSERVATION_METRICS: ObservationMetric[] = ['temperature', 'humidity', 'pressure', 'windSpeed'];
+
+const HOUR = 60 * 60;
+export const DAY = 24 * HOUR;
+
+/** A little over 30 days, so the longest chart is full and this week always has a last week. */
+export const HISTORY_RETENTION = 35 * DAY;
+
+/**
+ * Resolution by age, finest last. Observations within a bucket are averaged,
+ * so recent ones are kept nearly as fetched and old ones thin out.
+ */
+const RESOLUTION_TIERS = [
+  { olderThan: 7 * DAY, bucket: 3 * HOUR },
+  { olderThan: 2 * DAY, bucket: HOUR },
+  { olderThan: 0, bucket: 10 * 60 },
+];
+
+export const toObservation = (current: CurrentConditions): Observation => ({
+  time: current.observedAt,
+  temperature: current.temperature,
+  humidity: current.humidity,
+  pressure: current.pressure,
+  windSpeed: current.windSpeed,
+});
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function averageObservations(observations: Observation[]): Observation {
+  if (observations.length === 1) return observations[0];
+  return {
+    time: Math.round(mean(observations.map((observation) => observation.time))),
+    temperature: mean(observations.map((observation) => observation.temperature)),
+    humidity: mean(observations.map((observation) => observation.humidity)),
+    pressure: mean(observations.map((observation) => observation.pressure)),
+    windSpeed: mean(observations.map((observation) => observation.windSpeed)),
+  };
+}
+
+/**
+ * Drops observations past the retention period and averages the rest down to
+ * the resolution their age allows. `observations` must be sorted by time.
+ */
+export function compactHistory(observations: Observation[], now: number): Observation[] {
+  const buckets = new Map<string, Observation[]>();
+  observations
+    .filter((observation) => observation.time >= now - HISTORY_RETENTION)
+    .forEach((observation) => {
+      const tier = RESOLUTION_TIERS.find(({ olderThan }) => now - observation.time >= olderThan) ?? RESOLUTION_TIERS[2];
+      const key = `${tier.bucket}:${Math.floor(observation.time / tier.bucket)}`;
+      buckets.set(key, [...(buckets.get(key) ?? []), observation]);
+    });
+  return [...buckets.values()].map(averageObservations);
+}
+
+/** Adds an observation to a sorted series and compacts it; the series is returned unchanged if already recorded. */
+export function appendObservation(series: Observation[], observation: Observation, now: number) {
+  if (series.some((recorded) => recorded.time === observation.time)) return series;
+  const merged = [...series, observation].sort((a, b) => a.time - b.time);
+  return compactHistory(merged, now);
+}
+
+/**
+ * Averages `metric` into equal buckets covering `from`–`to`, for charting.
+ * Buckets without observations are null so charts can leave a gap.
+ */
+export function bucketMetric(
+  observations: Observation[],
+  metric: ObservationMetric,
+  from: number,
+  to: number,
+  bucket: number
+): (number | null)[] {
+  const sums = Array.from({ length: Math.ceil((to - from) / bucket) }, () => ({ total: 0, count: 0 }));
+  observations.forEach((observation) => {
+    const index = Math.floor((observation.time - from) / bucket);
+    if (index < 0 || index >= sums.length) return;
+    sums[index].total += observation[metric];
+    sums[index].count += 1;
+  });
+  return sums.map(({ total, count }) => (count > 0 ? total / count : null));
+}
+
+/** Mean, minimum and maximum of `metric` from `from` (inclusive) to `to`, or null without data. */
+export function summarizeMetric(observations: Observation[], metric: ObservationMetric, from: number, to: number) {
+  const values = observations
+    .filter((observation) => observation.time >= from && observation.time < to)
+    .map((observation) => observation[metric]);
+  if (values.length === 0) return null;
+  return { mean: mean(values), min: Math.min(...values), max: Math.max(...values) };
+}
@@ -0,0 +1,29 @@
+import * as Linking from 'expo-linking';
+
+import { Coordinates, LocationQuery } from '@/services/weather';
+
+/** Decimal places kept in shared coordinates, about 10 m. */
+const COORDINATE_DECIMALS = 4;
+
+/** App route for a place: `/city/Galle` for a name, `/at/6.0535/80.2210` for a point. */
+export const locationPath = (query: LocationQuery) =>
+  'q' in query
+    ? `/city/${encodeURIComponent(query.q)}`
+    : `/at/${query.lat.toFixed(COORDINATE_DECIMALS)}/${query.lon.toFixed(COORDINATE_DECIMALS)}`;
+
+/**
+ * Link that opens the place in the app: `lankaweather://…` in a build, the
+ * site's own URL on the web, and the dev server's URL while developing. A
+ * point keeps its display name as a `name` query parameter.
+ */
+export const locationUrl = (query: LocationQuery) =>
+  Linking.createURL(locationPath(query), {
+    queryParams: 'name' in query && query.name ? { name: query.name } : undefined,
+  });
+
+/** Parses route params back into coordinates, or null if they are not a valid point. */
+export function parseCoordinates(lat: string | undefined, lon: string | undefined): Coordinates | null {
+  if (!lat || !lon) return null;
+  const point = { lat: Number(lat), lon: Number(lon) };
+  return Math.abs(point.lat) <= 90 && Math.abs(point.lon) <= 180 ? point : null;
+}
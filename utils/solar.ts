@@ -0,0 +1,45 @@
+/**
+ * Solar position from the NOAA general solar position equations; accurate to
+ * a fraction of a degree, which is plenty for estimating UV.
+ */
+
+import { Coordinates } from '@/services/weather';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** Sun elevation above the horizon in degrees (negative at night) at `time` (unix seconds). */
+export function solarElevation(time: number, { lat, lon }: Coordinates) {
+  const date = new Date(time * 1000);
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const dayOfYear = Math.floor((date.getTime() - startOfYear) / 86400000);
+  const utcHours = date.getUTCHours() + date.getUTCMinutes() / 60 + date.getUTCSeconds() / 3600;
+
+  // Fractional year, in radians.
+  const gamma = ((2 * Math.PI) / 365) * (dayOfYear + (utcHours - 12) / 24);
+
+  const equationOfTime =
+    229.18 *
+    (0.000075 +
+      0.001868 * Math.cos(gamma) -
+      0.032077 * Math.sin(gamma) -
+      0.014615 * Math.cos(2 * gamma) -
+      0.040849 * Math.sin(2 * gamma));
+
+  const declination =
+    0.006918 -
+    0.399912 * Math.cos(gamma) +
+    0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) +
+    0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) +
+    0.00148 * Math.sin(3 * gamma);
+
+  const trueSolarMinutes = utcHours * 60 + equationOfTime + 4 * lon;
+  const hourAngle = toRadians(trueSolarMinutes / 4 - 180);
+  const latitude = toRadians(lat);
+
+  const cosZenith =
+    Math.sin(latitude) * Math.sin(declination) + Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle);
+  return 90 - toDegrees(Math.acos(Math.min(1, Math.max(-1, cosZenith))));
+}
@@ -0,0 +1,76 @@
+import { Translate, TranslationKey } from '@/i18n';
+import {
+  convertDistance,
+  convertPrecipitation,
+  convertPressure,
+  convertTemperature,
+  convertWindSpeed,
+  DistanceUnit,
+  formatNumber,
+  PRESSURE_DECIMALS,
+  PressureUnit,
+  TemperatureUnit,
+  toBeaufort,
+  WindSpeedUnit,
+} from '@/utils/units';
+
+/**
+ * Values as a screen reader should say them: the numbers match the `format*`
+ * helpers in `utils/units`, but units are spelled out, e.g. "82 percent"
+ * rather than "82%", which some readers skip or read symbol by symbol.
+ */
+
+const WIND_SPEED_KEYS: Record<WindSpeedUnit, TranslationKey> = {
+  ms: 'a11y.speed.ms',
+  kmh: 'a11y.speed.kmh',
+  mph: 'a11y.speed.mph',
+  knots: 'a11y.speed.knots',
+  beaufort: 'a11y.speed.beaufort',
+};
+
+const PRESSURE_KEYS: Record<PressureUnit, TranslationKey> = {
+  hPa: 'a11y.pressure.hPa',
+  inHg: 'a11y.pressure.inHg',
+  mmHg: 'a11y.pressure.mmHg',
+};
+
+const DISTANCE_KEYS: Record<DistanceUnit, TranslationKey> = {
+  km: 'a11y.distance.km',
+  mi: 'a11y.distance.mi',
+};
+
+const PRECIPITATION_KEYS: Record<DistanceUnit, TranslationKey> = {
+  km: 'a11y.precipitation.mm',
+  mi: 'a11y.precipitation.in',
+};
+
+export const speakTemperature = (
+  celsius: number,
+  unit: TemperatureUnit,
+  t: Translate,
+  locale?: string,
+  decimals: number = 0
+) => t('a11y.degrees', { value: formatNumber(convertTemperature(celsius, unit), decimals, locale) });
+
+export const speakWindSpeed = (metresPerSecond: number, unit: WindSpeedUnit, t: Translate, locale?: string) =>
+  t(WIND_SPEED_KEYS[unit], {
+    value:
+      unit === 'beaufort'
+        ? formatNumber(toBeaufort(metresPerSecond), 0, locale)
+        : formatNumber(convertWindSpeed(metresPerSecond, unit), 1, locale),
+  });
+
+export const speakPressure = (hectopascals: number, unit: PressureUnit, t: Translate, locale?: string) =>
+  t(PRESSURE_KEYS[unit], { value: formatNumber(convertPressure(hectopascals, unit), PRESSURE_DECIMALS[unit], locale) });
+
+export const speakDistance = (metres: number, unit: DistanceUnit, t: Translate, locale?: string) =>
+  t(DISTANCE_KEYS[unit], { value: formatNumber(convertDistance(metres, unit), 1, locale) });
+
+export const speakPrecipitation = (millimetres: number, unit: DistanceUnit, t: Translate, locale?: string) =>
+  t(PRECIPITATION_KEYS[unit], {
+    value: formatNumber(convertPrecipitation(millimetres, unit), unit === 'mi' ? 2 : 1, locale),
+  });
+
+/** A 0–1 fraction as a whole percentage, e.g. `0.7` → "70 percent". */
+export const speakPercent = (fraction: number, t: Translate, locale?: string) =>
+  t('a11y.percent', { value: formatNumber(Math.round(fraction * 100), 0, locale) });
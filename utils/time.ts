@@ -0,0 +1,71 @@
+import { Translate } from '@/i18n';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Human-readable age of a unix-millisecond timestamp, e.g. "5 minutes ago". */
+export function formatAge(timestamp: number, now: number, t: Translate) {
+  const elapsed = Math.max(0, now - timestamp);
+  if (elapsed < MINUTE_MS) return t('age.justNow');
+
+  const minutes = Math.floor(elapsed / MINUTE_MS);
+  if (elapsed < HOUR_MS) return t(minutes === 1 ? 'age.minute' : 'age.minutes', { count: minutes });
+
+  const hours = Math.floor(elapsed / HOUR_MS);
+  if (elapsed < DAY_MS) return t(hours === 1 ? 'age.hour' : 'age.hours', { count: hours });
+
+  const days = Math.floor(elapsed / DAY_MS);
+  return t(days === 1 ? 'age.day' : 'age.days', { count: days });
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** `system` follows the convention of the display language's locale. */
+export type TimeFormat = 'system' | '12h' | '24h';
+
+const hour12For = (format: TimeFormat) => (format === 'system' ? undefined : format === '12h');
+
+/**
+ * A Date whose UTC fields read as the wall-clock time at a location that is
+ * `timezoneOffset` seconds ahead of UTC. Format it with `timeZone: 'UTC'`.
+ */
+const toLocationDate = (time: number, timezoneOffset: number) => new Date((time + timezoneOffset) * 1000);
+
+/** Wall-clock time at the location, e.g. "06:02 AM". */
+export function formatLocationTime(
+  time: number,
+  timezoneOffset: number,
+  locale: string = 'en-US',
+  format: TimeFormat = 'system'
+) {
+  return toLocationDate(time, timezoneOffset).toLocaleTimeString(locale, {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: hour12For(format),
+    timeZone: 'UTC',
+  });
+}
+
+/** Hour at the location, e.g. "3 PM". */
+export function formatLocationHour(
+  time: number,
+  timezoneOffset: number,
+  locale: string = 'en-US',
+  format: TimeFormat = 'system'
+) {
+  return toLocationDate(time, timezoneOffset).toLocaleTimeString(locale, {
+    hour: 'numeric',
+    hour12: hour12For(format),
+    timeZone: 'UTC',
+  });
+}
+
+/** Weekday name of a `YYYY-MM-DD` calendar date, independent of the device timezone. */
+export function formatWeekday(date: string, locale: string = 'en-US', weekday: 'short' | 'long' = 'short') {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, { weekday, timeZone: 'UTC' });
+}
+
+/** Seconds since local midnight at the location. */
+export const secondsOfLocationDay = (time: number, timezoneOffset: number) =>
+  (((time + timezoneOffset) % SECONDS_PER_DAY) + SECONDS_PER_DAY) % SECONDS_PER_DAY;
@@ -0,0 +1,119 @@
+/**
+ * Unit conversion and display formatting. The domain model is always metric
+ * (°C, m/s, hPa, metres, millimetres); every value shown to the user goes
+ * through one of the `format*` helpers below.
+ */
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type WindSpeedUnit = 'ms' | 'kmh' | 'mph' | 'knots' | 'beaufort';
+export type PressureUnit = 'hPa' | 'inHg' | 'mmHg';
+/** Also decides precipitation: millimetres with kilometres, inches with miles. */
+export type DistanceUnit = 'km' | 'mi';
+
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  windSpeed: WindSpeedUnit;
+  pressure: PressureUnit;
+  distance: DistanceUnit;
+}
+
+export const METRIC_UNITS: UnitPreferences = {
+  temperature: 'celsius',
+  windSpeed: 'ms',
+  pressure: 'hPa',
+  distance: 'km',
+};
+
+export const UNIT_LABELS = {
+  temperature: { celsius: '°C', fahrenheit: '°F' },
+  windSpeed: { ms: 'm/s', kmh: 'km/h', mph: 'mph', knots: 'kn', beaufort: 'Bft' },
+  pressure: { hPa: 'hPa', inHg: 'inHg', mmHg: 'mmHg' },
+  distance: { km: 'km', mi: 'mi' },
+} as const;
+
+const WIND_FACTORS: Record<Exclude<WindSpeedUnit, 'beaufort'>, number> = {
+  ms: 1,
+  kmh: 3.6,
+  mph: 2.236936,
+  knots: 1.943844,
+};
+
+const PRESSURE_FACTORS: Record<PressureUnit, number> = {
+  hPa: 1,
+  inHg: 0.0295300,
+  mmHg: 0.750062,
+};
+
+export const PRESSURE_DECIMALS: Record<PressureUnit, number> = {
+  hPa: 0,
+  inHg: 2,
+  mmHg: 0,
+};
+
+/** Upper bounds in m/s of Beaufort forces 0–11; anything above is force 12. */
+const BEAUFORT_LIMITS = [0.5, 1.6, 3.4, 5.5, 8.0, 10.8, 13.9, 17.2, 20.8, 24.5, 28.5, 32.7];
+
+const METRES_PER_MILE = 1609.344;
+const MM_PER_INCH = 25.4;
+
+/** Fixed-decimal number in the given locale's notation, without digit grouping. */
+export const formatNumber = (value: number, decimals: number, locale: string = 'en-US') =>
+  value.toLocaleString(locale, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping: false,
+  });
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit) =>
+  unit === 'fahrenheit' ? (celsius * 9) / 5 + 32 : celsius;
+
+export const toBeaufort = (metresPerSecond: number) => {
+  const force = BEAUFORT_LIMITS.findIndex((limit) => metresPerSecond < limit);
+  return force === -1 ? BEAUFORT_LIMITS.length : force;
+};
+
+export const convertWindSpeed = (metresPerSecond: number, unit: WindSpeedUnit) =>
+  unit === 'beaufort' ? toBeaufort(metresPerSecond) : metresPerSecond * WIND_FACTORS[unit];
+
+export const convertPressure = (hectopascals: number, unit: PressureUnit) =>
+  hectopascals * PRESSURE_FACTORS[unit];
+
+export const convertDistance = (metres: number, unit: DistanceUnit) =>
+  unit === 'mi' ? metres / METRES_PER_MILE : metres / 1000;
+
+export const convertPrecipitation = (millimetres: number, unit: DistanceUnit) =>
+  unit === 'mi' ? millimetres / MM_PER_INCH : millimetres;
+
+type TemperatureFormat = {
+  decimals?: number;
+  /** Append C/F after the degree sign. */
+  showUnit?: boolean;
+  locale?: string;
+};
+
+export const formatTemperature = (
+  celsius: number,
+  unit: TemperatureUnit,
+  { decimals = 0, showUnit = false, locale }: TemperatureFormat = {}
+) =>
+  `${formatNumber(convertTemperature(celsius, unit), decimals, locale)}${showUnit ? UNIT_LABELS.temperature[unit] : '°'}`;
+
+export const formatWindSpeed = (metresPerSecond: number, unit: WindSpeedUnit, locale?: string) =>
+  unit === 'beaufort'
+    ? `${formatNumber(toBeaufort(metresPerSecond), 0, locale)} ${UNIT_LABELS.windSpeed.beaufort}`
+    : `${formatNumber(convertWindSpeed(metresPerSecond, unit), 1, locale)} ${UNIT_LABELS.windSpeed[unit]}`;
+
+export const formatPressure = (hectopascals: number, unit: PressureUnit, locale?: string) =>
+  `${formatNumber(convertPressure(hectopascals, unit), PRESSURE_DECIMALS[unit], locale)} ${UNIT_LABELS.pressure[unit]}`;
+
+export const formatDistance = (metres: number, unit: DistanceUnit, locale?: string) =>
+  `${formatNumber(convertDistance(metres, unit), 1, locale)} ${UNIT_LABELS.distance[unit]}`;
+
+export const formatPrecipitation = (millimetres: number, unit: DistanceUnit, locale?: string) =>
+  unit === 'mi'
+    ? `${formatNumber(convertPrecipitation(millimetres, unit), 2, locale)} in`
+    : `${formatNumber(convertPrecipitation(millimetres, unit), 1, locale)} mm`;
+
+/** A 0–1 fraction as a whole percentage, e.g. `0.7` → "70%". */
+export const formatPercent = (fraction: number, locale?: string) =>
+  `${formatNumber(Math.round(fraction * 100), 0, locale)}%`;
@@ -0,0 +1,93 @@
+import { TranslationKey } from '@/i18n';
+import { Coordinates, CurrentConditions, Forecast } from '@/services/weather';
+import { solarElevation } from '@/utils/solar';
+import { secondsOfLocationDay } from '@/utils/time';
+
+export type UvLevel = 'low' | 'moderate' | 'high' | 'veryHigh' | 'extreme';
+
+export interface UvBand {
+  level: UvLevel;
+  /** Lowest (rounded) index in the band. */
+  from: number;
+  color: string;
+  label: TranslationKey;
+  /** Sun-safety guidance for the band. */
+  advice: TranslationKey;
+}
+
+/** WHO UV index bands. */
+export const UV_LEVELS: UvBand[] = [
+  { level: 'low', from: 0, color: '#4CD964', label: 'uv.low', advice: 'uv.advice.low' },
+  { level: 'moderate', from: 3, color: '#FFD93D', label: 'uv.moderate', advice: 'uv.advice.moderate' },
+  { level: 'high', from: 6, color: '#FF8C42', label: 'uv.high', advice: 'uv.advice.high' },
+  { level: 'veryHigh', from: 8, color: '#FF4D4D', label: 'uv.veryHigh', advice: 'uv.advice.veryHigh' },
+  { level: 'extreme', from: 11, color: '#B565D9', label: 'uv.extreme', advice: 'uv.advice.extreme' },
+];
+
+/** Index from which the WHO recommends sun protection. */
+const PROTECTION_THRESHOLD = 3;
+const SAMPLE_SECONDS = 15 * 60;
+const DAY_SECONDS = 24 * 60 * 60;
+const STEP_SECONDS = 3 * 60 * 60;
+
+export const uvLevelFor = (uvIndex: number) =>
+  [...UV_LEVELS].reverse().find(({ from }) => Math.round(uvIndex) >= from) ?? UV_LEVELS[0];
+
+/**
+ * Cloudless UV index for a sun `elevation` degrees above the horizon, using the
+ * common empirical fit UVI ≈ 12.5 · cos(zenith)^2.42 for a typical ozone column.
+ */
+export const clearSkyUvIndex = (elevation: number) =>
+  elevation <= 0 ? 0 : 12.5 * Math.pow(Math.sin((elevation * Math.PI) / 180), 2.42);
+
+/**
+ * Scales a clear-sky index by cloud cover (0–100%) with the Kasten–Czeplak
+ * cloud modification factor, 1 − 0.75 · (cover)^3.4.
+ */
+export const cloudAdjustedUvIndex = (clearSky: number, cloudiness: number) =>
+  clearSky * (1 - 0.75 * Math.pow(Math.min(100, Math.max(0, cloudiness)) / 100, 3.4));
+
+export interface UvSample {
+  /** Unix seconds. */
+  time: number;
+  uvIndex: number;
+}
+
+export interface UvDay {
+  current: number;
+  peak: UvSample;
+  /** When the index is at or above 3 and protection is advised, or null if it never gets there. */
+  protectionWindow: { start: number; end: number } | null;
+}
+
+/** Cloud cover at `time`: from the forecast step covering it, else the current observation. */
+const cloudinessAt = (time: number, current: CurrentConditions, forecast: Forecast) =>
+  forecast.entries.find((entry) => time >= entry.time && time < entry.time + STEP_SECONDS)?.cloudiness ??
+  current.cloudiness;
+
+const estimateUvIndex = (time: number, coords: Coordinates, cloudiness: number) =>
+  cloudAdjustedUvIndex(clearSkyUvIndex(solarElevation(time, coords)), cloudiness);
+
+/**
+ * Estimated UV over the location's current calendar day, sampled every
+ * 15 minutes, using each step's forecast cloud cover.
+ */
+export function estimateUvDay(current: CurrentConditions, forecast: Forecast, now: number): UvDay {
+  const dayStart = now - secondsOfLocationDay(now, current.timezoneOffset);
+  const samples: UvSample[] = [];
+  for (let time = dayStart; time < dayStart + DAY_SECONDS; time += SAMPLE_SECONDS) {
+    samples.push({ time, uvIndex: estimateUvIndex(time, current.coords, cloudinessAt(time, current, forecast)) });
+  }
+
+  const peak = samples.reduce((best, sample) => (sample.uvIndex > best.uvIndex ? sample : best));
+  const exposed = samples.filter((sample) => Math.round(sample.uvIndex) >= PROTECTION_THRESHOLD);
+
+  return {
+    current: estimateUvIndex(now, current.coords, current.cloudiness),
+    peak,
+    protectionWindow:
+      exposed.length > 0
+        ? { start: exposed[0].time, end: exposed[exposed.length - 1].time + SAMPLE_SECONDS }
+        : null,
+  };
+}